@@ -42,13 +42,19 @@ export const SpatialNavigationFocusableView = forwardRef<SpatialNavigationNodeRe
         if (viewProps && viewProps.onMouseEnter) {
           viewProps.onMouseEnter();
         }
+        if (props.isDisabled) return;
         if (deviceTypeRef && typeof deviceTypeRef === 'object' && 'current' in deviceTypeRef && deviceTypeRef.current === 'remotePointer') {
           if (nodeRef.current && nodeRef.current.focus) {
             nodeRef.current.focus();
           }
         }
       },
+      // Clicks and taps focus the item before selecting it, like pressing Enter on it would
       onClick: () => {
+        if (props.isDisabled) return;
+        if (nodeRef.current && nodeRef.current.focus) {
+          nodeRef.current.focus();
+        }
         if (props.onSelect) {
           props.onSelect();
         }
@@ -63,6 +69,7 @@ export const SpatialNavigationFocusableView = forwardRef<SpatialNavigationNodeRe
             webProps={webProps}
             style={style}
             nodeState={nodeState}
+            isDisabled={props.isDisabled}
           >
             {children}
           </InnerFocusableView>
@@ -79,11 +86,12 @@ type InnerFocusableViewProps = FocusableViewProps & {
     onClick: () => void;
   };
   nodeState: FocusableNodeState;
+  isDisabled?: boolean;
 };
 
 const InnerFocusableView = forwardRef<HTMLDivElement, InnerFocusableViewProps>(
-  ({ viewProps, webProps, children, nodeState, style }, ref) => {
-    const accessibilityProps = useSpatialNavigatorFocusableAccessibilityProps();
+  ({ viewProps, webProps, children, nodeState, style, isDisabled }, ref) => {
+    const accessibilityProps = useSpatialNavigatorFocusableAccessibilityProps({ isDisabled });
     const accessibilityState = useMemo(
       () => ({ selected: nodeState.isFocused }),
       [nodeState.isFocused],
@@ -96,6 +104,7 @@ const InnerFocusableView = forwardRef<HTMLDivElement, InnerFocusableViewProps>(
         data-accessibility-state={JSON.stringify(accessibilityState)}
         role={accessibilityProps.role as any}
         aria-label={accessibilityProps['aria-label']}
+        aria-disabled={accessibilityProps['aria-disabled']}
         {...viewProps}
         {...webProps}
       >
@@ -6,10 +6,11 @@ import { ParentIdContext, useParentId } from '../context/ParentIdContext';
 import { useSpatialNavigatorParentScroll } from '../context/ParentScrollContext';
 import { useSpatialNavigator } from '../context/SpatialNavigatorContext';
 import { useUniqueId } from '../hooks/useUniqueId';
-import type { NodeOrientation, SpatialNavigationNodeRef } from '../types';
+import type { EnterTo, NodeOrientation, Restrict, SpatialNavigationNodeRef } from '../types';
 import type { NodeIndexRange } from '@bam.tech/lrud';
 import { useIsRootActive } from '../context/IsRootActiveContext';
 import { cloneElement } from 'preact';
+import type { OnBeforeMove, OnEdgeReached, OnKeyAction } from '../spatial-navigation/SpatialNavigator';
 
 type NonFocusableNodeState = {
   /** Returns whether the root is active or not. An active node is active if one of its children is focused. */
@@ -38,6 +39,27 @@ type DefaultProps = {
   onBlur?: () => void;
   onSelect?: () => void;
   onLongSelect?: () => void;
+  /**
+   * Called when the back key is pressed while this node or one of its children is focused.
+   * Return true to stop the propagation to the parent nodes and the root.
+   */
+  onBack?: () => boolean | void;
+  /**
+   * Called before a directional move, when this node or one of its children is focused.
+   * Return false to cancel the move, or the focus key of another node to move the focus there instead.
+   */
+  onBeforeMove?: OnBeforeMove;
+  /**
+   * Called when the focus could not move any further in a direction matching the orientation of this node
+   * (both directions for grids), because this node and its children hit their edge.
+   * Return true to stop the propagation to the parent nodes and the root `onDirectionHandledWithoutMovement`.
+   */
+  onEdgeReached?: OnEdgeReached;
+  /**
+   * Called with the media, color, digit, channel and page actions while this node or one of its children is focused.
+   * Return true to stop the propagation to the parent nodes and the root.
+   */
+  onKeyAction?: OnKeyAction;
   onActive?: () => void;
   onInactive?: () => void;
   orientation?: NodeOrientation;
@@ -49,6 +71,27 @@ type DefaultProps = {
    * This is an additional offset useful only for the scrollview. It adds up to the offsetFromStart of the scrollview.
    */
   additionalOffset?: number;
+  /**
+   * Which child gets the focus when the focus comes back in this node from outside.
+   * Use 'last-focused' to land on the child that was focused when the focus left the node.
+   */
+  enterTo?: EnterTo;
+  /** Shorthand for `enterTo="last-focused"` */
+  rememberLastFocus?: boolean;
+  /**
+   * Use 'self-only' to trap the focus inside this node: once a child is focused,
+   * directional moves can't leave the node anymore. Useful for modals rendered inside the page tree.
+   */
+  restrict?: Restrict;
+  /** If true, moving past the last child goes back to the first one (and vice versa). */
+  isLooping?: boolean;
+  /**
+   * Only for focusable nodes. A disabled node stays rendered but the navigation skips it.
+   * If it is focused when it becomes disabled, the focus moves to its nearest sibling.
+   */
+  isDisabled?: boolean;
+  /** A readable name to focus the node with `spatialNavigator.focus(focusKey)`, without holding a ref. */
+  focusKey?: string;
 };
 export type SpatialNavigationNodeProps = DefaultProps & (FocusableProps | NonFocusableProps);
 
@@ -98,6 +141,10 @@ export const SpatialNavigationNode = forwardRef<SpatialNavigationNodeRef, Spatia
       onBlur,
       onSelect,
       onLongSelect = onSelect,
+      onBack,
+      onBeforeMove,
+      onEdgeReached,
+      onKeyAction,
       onActive,
       onInactive,
       orientation = 'vertical',
@@ -106,6 +153,12 @@ export const SpatialNavigationNode = forwardRef<SpatialNavigationNodeRef, Spatia
       indexRange,
       children,
       additionalOffset = 0,
+      rememberLastFocus = false,
+      enterTo = rememberLastFocus ? 'last-focused' : 'default',
+      restrict = 'none',
+      isLooping = false,
+      isDisabled = false,
+      focusKey,
     }: SpatialNavigationNodeProps,
     ref,
   ) => {
@@ -116,6 +169,7 @@ export const SpatialNavigationNode = forwardRef<SpatialNavigationNodeRef, Spatia
     const [isActive, setIsActive] = useState(false);
     // If parent changes, we have to re-register the Node + all children -> adding the parentId to the nodeId makes the children re-register.
     const id = useUniqueId({ prefix: `${parentId}_node_` });
+    const isFocusableAndEnabled = isFocusable && !isDisabled;
 
     useImperativeHandle(
       ref,
@@ -136,6 +190,7 @@ export const SpatialNavigationNode = forwardRef<SpatialNavigationNodeRef, Spatia
      * We don't re-register in LRUD on each render, because LRUD does not allow updating the nodes.
      * Therefore, the SpatialNavigator Node callbacks are registered at 1st render but can change (ie. if props change) afterwards.
      * Since we want the functions to always be up to date, we use a reference to them.
+     * The rest of the configuration is patched in place when it changes (see the effect calling `updateNode`).
      */
     const currentOnSelect = useRef<(() => void) | undefined>(undefined);
     currentOnSelect.current = onSelect;
@@ -143,6 +198,18 @@ export const SpatialNavigationNode = forwardRef<SpatialNavigationNodeRef, Spatia
     const currentOnLongSelect = useRef<(() => void) | undefined>(undefined);
     currentOnLongSelect.current = onLongSelect;
 
+    const currentOnBack = useRef<(() => boolean | void) | undefined>(undefined);
+    currentOnBack.current = onBack;
+
+    const currentOnBeforeMove = useRef<OnBeforeMove | undefined>(undefined);
+    currentOnBeforeMove.current = onBeforeMove;
+
+    const currentOnEdgeReached = useRef<OnEdgeReached | undefined>(undefined);
+    currentOnEdgeReached.current = onEdgeReached;
+
+    const currentOnKeyAction = useRef<OnKeyAction | undefined>(undefined);
+    currentOnKeyAction.current = onKeyAction;
+
     const currentOnFocus = useRef<(() => void) | undefined>(undefined);
     currentOnFocus.current = () => {
       if (onFocus) {
@@ -172,7 +239,7 @@ export const SpatialNavigationNode = forwardRef<SpatialNavigationNodeRef, Spatia
     useEffect(() => {
       spatialNavigator.registerNode(id, {
         parent: parentId,
-        isFocusable,
+        isFocusable: isFocusableAndEnabled,
         onBlur: () => {
           if (currentOnBlur.current) {
             currentOnBlur.current();
@@ -199,9 +266,34 @@ export const SpatialNavigationNode = forwardRef<SpatialNavigationNodeRef, Spatia
             currentOnLongSelect.current();
           }
         },
+        onBack: () => {
+          if (currentOnBack.current) {
+            return currentOnBack.current();
+          }
+        },
+        onBeforeMove: (move) => {
+          if (currentOnBeforeMove.current) {
+            return currentOnBeforeMove.current(move);
+          }
+        },
+        onEdgeReached: (direction) => {
+          if (currentOnEdgeReached.current) {
+            return currentOnEdgeReached.current(direction);
+          }
+        },
+        onKeyAction: (action) => {
+          if (currentOnKeyAction.current) {
+            return currentOnKeyAction.current(action);
+          }
+        },
+        getElement: () => childRef.current,
         orientation,
         isIndexAlign: alignInGrid,
+        isWrapping: isLooping,
         indexRange,
+        enterTo,
+        restrict,
+        focusKey,
         onActive: () => {
           if (currentOnActive.current) {
             currentOnActive.current();
@@ -225,10 +317,38 @@ export const SpatialNavigationNode = forwardRef<SpatialNavigationNodeRef, Spatia
     }, [parentId]);
 
     useEffect(() => {
-      if (shouldHaveDefaultFocus && isFocusable && !spatialNavigator.hasOneNodeFocused()) {
+      spatialNavigator.updateNode(id, {
+        orientation,
+        isFocusable: isFocusableAndEnabled,
+        isIndexAlign: alignInGrid,
+        isWrapping: isLooping,
+        indexRange,
+        enterTo,
+        restrict,
+        focusKey,
+      });
+    }, [
+      spatialNavigator,
+      id,
+      orientation,
+      isFocusableAndEnabled,
+      alignInGrid,
+      isLooping,
+      indexRange,
+      enterTo,
+      restrict,
+      focusKey,
+    ]);
+
+    useEffect(() => {
+      if (
+        shouldHaveDefaultFocus &&
+        isFocusableAndEnabled &&
+        !spatialNavigator.hasOneNodeFocused()
+      ) {
         spatialNavigator.handleOrQueueDefaultFocus(id);
       }
-    }, [id, isFocusable, shouldHaveDefaultFocus, spatialNavigator]);
+    }, [id, isFocusableAndEnabled, shouldHaveDefaultFocus, spatialNavigator]);
 
     // This proxy allows to track whether a property is used or not
     // hence allowing to ignore re-renders for unused properties
@@ -4,9 +4,14 @@ import { ParentIdContext } from '../context/ParentIdContext';
 import { SpatialNavigatorContext } from '../context/SpatialNavigatorContext';
 import { useCreateSpatialNavigator } from '../hooks/useCreateSpatialNavigator';
 import { useRemoteControl } from '../hooks/useRemoteControl';
-import type { OnDirectionHandledWithoutMovement } from '../spatial-navigation/SpatialNavigator';
+import type {
+  OnBeforeMove,
+  OnDirectionHandledWithoutMovement,
+} from '../spatial-navigation/SpatialNavigator';
 import { LockSpatialNavigationContext, useIsLocked } from '../context/LockSpatialNavigationContext';
 import { IsRootActiveContext } from '../context/IsRootActiveContext';
+import type { InputSource } from '../utils/remoteControl';
+import type { KeyAction } from '../types';
 
 const ROOT_ID = 'root';
 
@@ -27,12 +32,39 @@ export type SpatialNavigationRootProps = {
    * make this menu active when you reach the left side of your page navigator.
    */
   onDirectionHandledWithoutMovement?: OnDirectionHandledWithoutMovement;
+  /**
+   * Called when the back key is pressed and none of the focused node and its parents handled it
+   * (see the `onBack` prop of SpatialNavigationNode).
+   * A use case for this would be popping the current screen.
+   */
+  onBack?: () => void;
+  /**
+   * Called before every directional move, after the `onBeforeMove` of the focused node and its parents.
+   * Return false to cancel the move, or the focus key of another node to move the focus there instead.
+   */
+  onBeforeMove?: OnBeforeMove;
+  /**
+   * Called with the media, color, digit, channel and page actions that none of the focused node and its parents
+   * handled (see the `onKeyAction` prop of SpatialNavigationNode).
+   * A use case for this would be global color-key shortcuts.
+   */
+  onKeyAction?: (action: KeyAction) => void;
+  /**
+   * Where this root gets its actions from, for example `createKeyboardRemoteControl()`.
+   * Defaults to the one of the closest SpatialNavigationInputSourceProvider, or else to the one set with
+   * `configureRemoteControl`. Create it once, not at every render.
+   */
+  inputSource?: InputSource;
   children: ComponentChildren;
 };
 
 export const SpatialNavigationRoot = ({
   isActive = true,
   onDirectionHandledWithoutMovement = () => undefined,
+  onBack = () => undefined,
+  onBeforeMove = () => undefined,
+  onKeyAction = () => undefined,
+  inputSource,
   children,
 }: SpatialNavigationRootProps) => {
   // We can't follow the react philosophy here: we can't recreate a navigator if this function changes
@@ -43,14 +75,26 @@ export const SpatialNavigationRoot = ({
   // Update the ref at every render
   onDirectionHandledWithoutMovementRef.current = onDirectionHandledWithoutMovement;
 
+  const onBackRef = useRef<() => void>(() => undefined);
+  onBackRef.current = onBack;
+
+  const onBeforeMoveRef = useRef<OnBeforeMove>(() => undefined);
+  onBeforeMoveRef.current = onBeforeMove;
+
+  const onKeyActionRef = useRef<(action: KeyAction) => void>(() => undefined);
+  onKeyActionRef.current = onKeyAction;
+
   const spatialNavigator = useCreateSpatialNavigator({
     onDirectionHandledWithoutMovementRef,
+    onBackRef,
+    onBeforeMoveRef,
+    onKeyActionRef,
   });
 
   const { isLocked, lockActions } = useIsLocked();
 
   const isRootActive = isActive && !isLocked;
-  useRemoteControl({ spatialNavigator, isActive: isRootActive });
+  useRemoteControl({ spatialNavigator, isActive: isRootActive, inputSource });
 
   useEffect(() => {
     spatialNavigator.registerNode(ROOT_ID, { orientation: 'vertical' });
@@ -1,21 +1,42 @@
 import type { ComponentChildren, JSX } from 'preact';
 import { forwardRef } from 'preact/compat';
 import { SpatialNavigationNode } from './SpatialNavigationNode';
-import type { SpatialNavigationNodeRef } from '../types';
+import type { EnterTo, SpatialNavigationNodeRef } from '../types';
 
 type Props = {
   children: ComponentChildren;
   style?: JSX.CSSProperties;
   direction: 'horizontal' | 'vertical';
   alignInGrid?: boolean;
+  enterTo?: EnterTo;
+  rememberLastFocus?: boolean;
+  isLooping?: boolean;
 };
 
 export const SpatialNavigationView = forwardRef<SpatialNavigationNodeRef, Props>(
-  ({ direction = 'horizontal', alignInGrid = false, children, style }: Props, ref) => {
+  (
+    {
+      direction = 'horizontal',
+      alignInGrid = false,
+      enterTo,
+      rememberLastFocus,
+      isLooping,
+      children,
+      style,
+    }: Props,
+    ref,
+  ) => {
     const flexDirection = direction === 'horizontal' ? 'row' : 'column';
     
     return (
-      <SpatialNavigationNode orientation={direction} alignInGrid={alignInGrid} ref={ref}>
+      <SpatialNavigationNode
+        orientation={direction}
+        alignInGrid={alignInGrid}
+        enterTo={enterTo}
+        rememberLastFocus={rememberLastFocus}
+        isLooping={isLooping}
+        ref={ref}
+      >
         <div
           style={{
             ...style,
@@ -8,18 +8,28 @@ import type {
 } from '../virtualizedList/SpatialNavigationVirtualizedListWithScroll';
 import { useSpatialNavigator } from '../../context/SpatialNavigatorContext';
 import { ParentIdContext, useParentId } from '../../context/ParentIdContext';
-import { convertToGrid, type GridRowType } from './helpers/convertToGrid';
+import { convertToGrid, getColumnVirtualNodeId, type GridRowType } from './helpers/convertToGrid';
 import type { ViewportPadding } from '../virtualizedList/VirtualizedListWithSize';
+import type {
+  FocusAsyncOptions,
+  FocusPathSegment,
+} from '../../spatial-navigation/SpatialNavigator';
 
 type SpatialNavigationVirtualizedGridProps<T> = Pick<
   SpatialNavigationVirtualizedListWithScrollProps<T>,
   | 'data'
   | 'renderItem'
   | 'onEndReached'
+  | 'onEdgeReached'
+  | 'onKeyAction'
+  | 'pageUpActions'
+  | 'pageDownActions'
+  | 'focusKey'
   | 'style'
   | 'nbMaxOfItems'
   | 'scrollBehavior'
   | 'scrollDuration'
+  | 'wheelSensitivity'
   | 'testID'
 > &
   PointerScrollProps & {
@@ -36,10 +46,17 @@ type SpatialNavigationVirtualizedGridProps<T> = Pick<
     rowContainerStyle?: JSX.CSSProperties;
     /** Viewport padding used for Chrome 38 fallback size calculation */
     viewportPadding?: ViewportPadding;
+    /** Gives a readable name to the items, so they can be used in a focus path even when they are not rendered */
+    getItemFocusKey?: (item: T, index: number) => string;
   };
 
 export interface SpatialNavigationVirtualizedGridRef {
-  focus: (index: number) => void;
+  /**
+   * Scrolls to the row and focuses it once it is rendered.
+   * Resolves when it is focused, rejects on timeout, if another focus request supersedes this one or if the grid
+   * is not rendered yet. It can be called without waiting for it: the rejection is already handled.
+   */
+  focus: (index: number, options?: FocusAsyncOptions) => Promise<void>;
   scrollTo: (index: number) => void;
   currentlyFocusedItemIndex: number;
 }
@@ -48,7 +65,10 @@ const useRegisterGridRowVirtualNodes = ({ numberOfColumns }: { numberOfColumns:
   const spatialNavigator = useSpatialNavigator();
   const parentId = useParentId();
 
-  const getNthVirtualNodeID = useCallback((index: number) => `${parentId}_${index}`, [parentId]);
+  const getNthVirtualNodeID = useCallback(
+    (index: number) => getColumnVirtualNodeId(parentId, index),
+    [parentId],
+  );
 
   // This function must be idempotent so we don't register existing nodes again when grid data changes
   const registerNthVirtualNode = useCallback(
@@ -158,6 +178,7 @@ export const SpatialNavigationVirtualizedGrid = forwardRef(
       onEndReachedThresholdRowsNumber,
       nbMaxOfItems,
       rowContainerStyle,
+      getItemFocusKey,
       ...props
     }: SpatialNavigationVirtualizedGridProps<T>,
     ref: Ref<SpatialNavigationVirtualizedGridRef>,
@@ -177,6 +198,26 @@ export const SpatialNavigationVirtualizedGrid = forwardRef(
       [hasHeader, header, gridRows],
     );
 
+    // Focus path segments refer to the items of the grid, but the list renders rows
+    const getFocusPathItem = useCallback(
+      (segment: FocusPathSegment) => {
+        const index =
+          typeof segment === 'number'
+            ? segment
+            : getItemFocusKey
+              ? data.findIndex((item, itemIndex) => getItemFocusKey(item, itemIndex) === segment)
+              : -1;
+        if (index < 0 || index >= data.length) return undefined;
+
+        const rowIndex = Math.floor(index / numberOfColumns);
+        return {
+          index: hasHeader ? rowIndex + 1 : rowIndex,
+          columnIndex: index % numberOfColumns,
+        };
+      },
+      [data, getItemFocusKey, hasHeader, numberOfColumns],
+    );
+
     const itemSizeAsAFunction = useCallback(
       (item: GridRowType<T> | JSX.Element) => {
         if (hasHeader && typeof item === 'object' && 'type' in item) {
@@ -224,6 +265,7 @@ export const SpatialNavigationVirtualizedGrid = forwardRef(
         orientation="vertical"
         nbMaxOfItems={nbMaxOfItems ? Math.ceil(nbMaxOfItems / numberOfColumns) : undefined}
         renderItem={renderHeaderThenRows}
+        getFocusPathItem={getFocusPathItem}
         isGrid
         {...props}
       />
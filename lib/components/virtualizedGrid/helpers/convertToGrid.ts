@@ -31,6 +31,10 @@ export const convertToGrid = <T>(
   });
 };
 
+/** Id of the virtual node wrapping the nth item of a row, the row being a virtual node of the grid list */
+export const getColumnVirtualNodeId = (rowVirtualNodeId: string, columnIndex: number) =>
+  `${rowVirtualNodeId}_${columnIndex}`;
+
 export const invertOrientation = (orientation: NodeOrientation): NodeOrientation =>
   orientation === 'vertical' ? 'horizontal' : 'vertical';
 
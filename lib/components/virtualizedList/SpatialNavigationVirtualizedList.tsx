@@ -1,5 +1,6 @@
 import type { JSX, Ref } from 'preact';
 import { forwardRef } from 'preact/compat';
+import { useCallback, useRef } from 'preact/hooks';
 import { SpatialNavigationNode } from '../SpatialNavigationNode';
 import {
   type PointerScrollProps,
@@ -7,6 +8,8 @@ import {
   type SpatialNavigationVirtualizedListWithScrollProps,
   type SpatialNavigationVirtualizedListRef,
 } from './SpatialNavigationVirtualizedListWithScroll';
+import type { OnKeyAction } from '../../spatial-navigation/SpatialNavigator';
+import type { KeyAction } from '../../types';
 
 /**
  * Use this component to render horizontally or vertically virtualized lists with spatial navigation
@@ -17,12 +20,31 @@ export const SpatialNavigationVirtualizedList = forwardRef(
     props: SpatialNavigationVirtualizedListWithScrollProps<T> & PointerScrollProps,
     ref: Ref<SpatialNavigationVirtualizedListRef>,
   ) => {
+    // The page actions need the scroll state, which lives below the node of the list
+    const pageKeyActionHandlerRef = useRef<OnKeyAction | undefined>(undefined);
+    const { onKeyAction } = props;
+    const handleKeyAction = useCallback(
+      (action: KeyAction) => {
+        if (onKeyAction && onKeyAction(action) === true) return true;
+        if (pageKeyActionHandlerRef.current) return pageKeyActionHandlerRef.current(action);
+      },
+      [onKeyAction],
+    );
+
     return (
       <SpatialNavigationNode
         alignInGrid={props.isGrid !== undefined ? props.isGrid : false}
         orientation={props.orientation !== undefined ? props.orientation : 'horizontal'}
+        onEdgeReached={props.onEdgeReached}
+        onKeyAction={handleKeyAction}
+        isLooping={props.isLooping}
+        focusKey={props.focusKey}
       >
-        <SpatialNavigationVirtualizedListWithScroll<T> {...props} ref={ref} />
+        <SpatialNavigationVirtualizedListWithScroll<T>
+          {...props}
+          pageKeyActionHandlerRef={pageKeyActionHandlerRef}
+          ref={ref}
+        />
       </SpatialNavigationNode>
     );
   },
@@ -1,6 +1,13 @@
 import type { JSX, Ref } from 'preact';
 import { forwardRef } from 'preact/compat';
-import { useCallback, useImperativeHandle, useMemo, useRef, useState } from 'preact/hooks';
+import {
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from 'preact/hooks';
 import type { VirtualizedListProps } from './VirtualizedList';
 import {
   SpatialNavigationVirtualizedListWithVirtualNodes,
@@ -14,6 +21,14 @@ import {
 } from '../../context/ParentScrollContext';
 import { useDeviceType } from '../../context/DeviceTypeContext';
 import { useSpatialNavigator } from '../../context/SpatialNavigatorContext';
+import { useParentId } from '../../context/ParentIdContext';
+import { getColumnVirtualNodeId } from '../virtualizedGrid/helpers/convertToGrid';
+import type {
+  FocusAsyncOptions,
+  FocusPathSegment,
+  OnKeyAction,
+} from '../../spatial-navigation/SpatialNavigator';
+import type { KeyAction } from '../../types';
 
 function ItemWrapperWithScrollContext<T>({
   setCurrentlyFocusedItemIndex,
@@ -47,9 +62,14 @@ function ItemWrapperWithScrollContext<T>({
 
 export type SpatialNavigationVirtualizedListWithScrollProps<T> = Omit<
   SpatialNavigationVirtualizedListWithVirtualNodesProps<T>,
-  'currentlyFocusedItemIndex'
+  'currentlyFocusedItemIndex' | 'onDragEnd' | 'onWheelScroll' | 'numberOfItemsVisibleOnScreenRef'
 >;
 
+/** Lets the list handle the page actions reaching its navigation node */
+type PageKeyActionHandlerProps = {
+  pageKeyActionHandlerRef?: { current: OnKeyAction | undefined };
+};
+
 export type PointerScrollProps = {
   descendingArrow?: JSX.Element;
   descendingArrowContainerStyle?: JSX.CSSProperties;
@@ -59,7 +79,12 @@ export type PointerScrollProps = {
 };
 
 export interface SpatialNavigationVirtualizedListRef {
-  focus: (index: number) => void;
+  /**
+   * Scrolls to the item and focuses it once it is rendered.
+   * Resolves when it is focused, rejects on timeout, if another focus request supersedes this one or if the list
+   * is not rendered yet. It can be called without waiting for it: the rejection is already handled.
+   */
+  focus: (index: number, options?: FocusAsyncOptions) => Promise<void>;
   scrollTo: (index: number) => void;
   currentlyFocusedItemIndex: number;
 }
@@ -146,12 +171,122 @@ const useRemotePointerVirtualizedListScrollProps = <T,>({
   };
 };
 
+/**
+ * Lets the spatial navigator scroll the list to an item of a focus path, so that this item gets rendered.
+ */
+const useRegisterFocusPathItemResolver = <T,>({
+  data,
+  getItemFocusKey,
+  getFocusPathItem,
+  setCurrentlyFocusedItemIndex,
+  idRef,
+}: {
+  data: T[];
+  getItemFocusKey?: (item: T, index: number) => string;
+  getFocusPathItem?: (
+    segment: FocusPathSegment,
+  ) => { index: number; columnIndex?: number } | undefined;
+  setCurrentlyFocusedItemIndex: (index: number) => void;
+  idRef: { current: SpatialNavigationVirtualizedListWithVirtualNodesRef | null };
+}) => {
+  const spatialNavigator = useSpatialNavigator();
+  const parentId = useParentId();
+
+  // The resolver is registered once, so it needs to read up-to-date props.
+  const currentFocusPathItemGetter = useRef<typeof getFocusPathItem>(undefined);
+  currentFocusPathItemGetter.current = (segment) => {
+    if (getFocusPathItem) return getFocusPathItem(segment);
+
+    const index =
+      typeof segment === 'number'
+        ? segment
+        : getItemFocusKey
+          ? data.findIndex((item, itemIndex) => getItemFocusKey(item, itemIndex) === segment)
+          : -1;
+    return index >= 0 && index < data.length ? { index } : undefined;
+  };
+
+  useEffect(() => {
+    spatialNavigator.registerFocusPathItemResolver(parentId, (segment) => {
+      const focusPathItem =
+        currentFocusPathItemGetter.current && currentFocusPathItemGetter.current(segment);
+      if (!focusPathItem || !idRef.current) return undefined;
+
+      setCurrentlyFocusedItemIndex(focusPathItem.index);
+      const virtualNodeId = idRef.current.getNthVirtualNodeID(focusPathItem.index);
+      return focusPathItem.columnIndex !== undefined
+        ? [virtualNodeId, getColumnVirtualNodeId(virtualNodeId, focusPathItem.columnIndex)]
+        : [virtualNodeId];
+    });
+
+    return () => spatialNavigator.unregisterFocusPathItemResolver(parentId);
+  }, [spatialNavigator, parentId, setCurrentlyFocusedItemIndex, idRef]);
+};
+
+/**
+ * Moves the focus by one page (as many items as fit in the list), or to the first or last item.
+ * Items that are not rendered yet get the focus once they are.
+ */
+const usePageKeyActions = ({
+  pageKeyActionHandlerRef,
+  pageUpActions = ['page_up', 'channel_up'],
+  pageDownActions = ['page_down', 'channel_down'],
+  numberOfItems,
+  isLooping,
+  currentlyFocusedItemIndex,
+  numberOfItemsVisibleOnScreenRef,
+  setCurrentlyFocusedItemIndex,
+  scrollTo,
+}: {
+  pageKeyActionHandlerRef?: { current: OnKeyAction | undefined };
+  pageUpActions?: KeyAction[];
+  pageDownActions?: KeyAction[];
+  numberOfItems: number;
+  isLooping: boolean;
+  currentlyFocusedItemIndex: number;
+  numberOfItemsVisibleOnScreenRef: { current: number };
+  setCurrentlyFocusedItemIndex: (index: number) => void;
+  scrollTo: (index: number) => void;
+}) => {
+  if (!pageKeyActionHandlerRef) return;
+
+  pageKeyActionHandlerRef.current = (action) => {
+    if (numberOfItems === 0) return;
+    const pageSize = Math.max(1, numberOfItemsVisibleOnScreenRef.current);
+
+    let index: number;
+    if (pageUpActions.includes(action)) {
+      index = currentlyFocusedItemIndex - pageSize;
+    } else if (pageDownActions.includes(action)) {
+      index = currentlyFocusedItemIndex + pageSize;
+    } else if (action === 'home') {
+      index = 0;
+    } else if (action === 'end') {
+      index = numberOfItems - 1;
+    } else {
+      return;
+    }
+
+    index = isLooping
+      ? ((index % numberOfItems) + numberOfItems) % numberOfItems
+      : Math.max(0, Math.min(index, numberOfItems - 1));
+    if (index !== currentlyFocusedItemIndex) {
+      setCurrentlyFocusedItemIndex(index);
+      scrollTo(index);
+    }
+    return true;
+  };
+};
+
 /**
  * This component wraps every item of a virtualizedList in a scroll handling context.
  */
 export const SpatialNavigationVirtualizedListWithScroll = forwardRef(
   <T,>(
-    props: SpatialNavigationVirtualizedListWithScrollProps<T> & PointerScrollProps,
+    {
+      pageKeyActionHandlerRef,
+      ...props
+    }: SpatialNavigationVirtualizedListWithScrollProps<T> & PointerScrollProps & PageKeyActionHandlerProps,
     ref: Ref<SpatialNavigationVirtualizedListRef>,
   ) => {
     const {
@@ -175,7 +310,15 @@ export const SpatialNavigationVirtualizedListWithScroll = forwardRef(
         idRef,
       });
 
-    const { deviceTypeRef } = useDeviceType();
+    const { deviceTypeRef, setDeviceType } = useDeviceType();
+
+    useRegisterFocusPathItemResolver({
+      data,
+      getItemFocusKey: props.getItemFocusKey,
+      getFocusPathItem: props.getFocusPathItem,
+      setCurrentlyFocusedItemIndex,
+      idRef,
+    });
 
     const setCurrentlyFocusedItemIndexCallback = useCallback(
       (index: number) => {
@@ -202,17 +345,62 @@ export const SpatialNavigationVirtualizedListWithScroll = forwardRef(
       [idRef, spatialNavigator],
     );
 
+    // On touch devices, the list can be dragged: the item where it stops gets the focus.
+    const isTouchDevice = deviceType === 'mobile' || deviceType === 'tablet';
+    const onDragEnd = useCallback(
+      (index: number) => {
+        setCurrentlyFocusedItemIndex(index);
+        scrollTo(index);
+      },
+      [scrollTo],
+    );
+
+    const numberOfItemsVisibleOnScreenRef = useRef(0);
+    usePageKeyActions({
+      pageKeyActionHandlerRef,
+      pageUpActions: props.pageUpActions,
+      pageDownActions: props.pageDownActions,
+      numberOfItems: data.length,
+      isLooping: !!props.isLooping,
+      currentlyFocusedItemIndex,
+      numberOfItemsVisibleOnScreenRef,
+      setCurrentlyFocusedItemIndex,
+      scrollTo,
+    });
+
+    // The wheel scrolls the list but the focus stays on the hovered item.
+    // A wheel turned while navigating with the keys is the remote pointer (e.g. Magic Remote) taking over.
+    const { isLooping } = props;
+    const onWheelScroll = useCallback(
+      (numberOfItems: number) => {
+        if (deviceType === 'remoteKeys') setDeviceType('remotePointer');
+        setCurrentlyFocusedItemIndex((index) => {
+          if (data.length === 0) return index;
+          const newIndex = index + numberOfItems;
+          return isLooping
+            ? ((newIndex % data.length) + data.length) % data.length
+            : Math.max(0, Math.min(newIndex, data.length - 1));
+        });
+      },
+      [data.length, isLooping, deviceType, setDeviceType],
+    );
+
     useImperativeHandle(
       ref,
       () => ({
-        focus: (index: number) => {
+        focus: (index: number, options?: FocusAsyncOptions) => {
           setCurrentlyFocusedItemIndex(index);
-          scrollTo(index);
+          const focusPromise = idRef.current
+            ? spatialNavigator.focusAsync(idRef.current.getNthVirtualNodeID(index), options)
+            : Promise.reject(new Error('[Preact Spatial Navigation] The list is not rendered yet.'));
+          // Callers that don't wait for the focus should not get unhandled rejections.
+          focusPromise.catch(() => undefined);
+          return focusPromise;
         },
         scrollTo,
         currentlyFocusedItemIndex,
       }),
-      [currentlyFocusedItemIndex, scrollTo],
+      [currentlyFocusedItemIndex, scrollTo, spatialNavigator],
     );
 
     const renderWrappedItem: typeof props.renderItem = useCallback(
@@ -234,6 +422,9 @@ export const SpatialNavigationVirtualizedListWithScroll = forwardRef(
           getNodeIdRef={idRef}
           currentlyFocusedItemIndex={currentlyFocusedItemIndex}
           renderItem={renderWrappedItem}
+          onDragEnd={isTouchDevice ? onDragEnd : undefined}
+          onWheelScroll={onWheelScroll}
+          numberOfItemsVisibleOnScreenRef={numberOfItemsVisibleOnScreenRef}
         />
         {deviceType === 'remotePointer' ? (
           <PointerScrollArrows
@@ -249,9 +440,11 @@ export const SpatialNavigationVirtualizedListWithScroll = forwardRef(
     );
   },
 ) as <T>(
-  props: SpatialNavigationVirtualizedListWithScrollProps<T> & PointerScrollProps & {
-    ref?: Ref<SpatialNavigationVirtualizedListRef>;
-  },
+  props: SpatialNavigationVirtualizedListWithScrollProps<T> &
+    PointerScrollProps &
+    PageKeyActionHandlerProps & {
+      ref?: Ref<SpatialNavigationVirtualizedListRef>;
+    },
 ) => JSX.Element;
 
 function PointerScrollArrows({
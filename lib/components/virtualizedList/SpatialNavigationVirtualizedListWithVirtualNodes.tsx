@@ -6,9 +6,14 @@ import { useSpatialNavigator } from '../../context/SpatialNavigatorContext';
 import { ParentIdContext, useParentId } from '../../context/ParentIdContext';
 import { updateVirtualNodeRegistration } from './helpers/updateVirtualNodeRegistration';
 import { useCachedValues } from './hooks/useCachedValues';
-import type { NodeOrientation } from '../../types';
+import type { KeyAction, NodeOrientation } from '../../types';
 import { invertOrientation } from '../virtualizedGrid/helpers/convertToGrid';
 import { VirtualizedListWithSize, type ViewportPadding } from './VirtualizedListWithSize';
+import type {
+  FocusPathSegment,
+  OnEdgeReached,
+  OnKeyAction,
+} from '../../spatial-navigation/SpatialNavigator';
 
 const useCreateVirtualParentsIds = (parentId: string) =>
   useCachedValues(() => uniqueId(`${parentId}_virtual_`));
@@ -141,6 +146,31 @@ export type SpatialNavigationVirtualizedListWithVirtualNodesProps<T> = Omit<
 > & {
   isGrid?: boolean;
   viewportPadding?: ViewportPadding;
+  /**
+   * Called when the focus could not move any further in the list (or in any direction for grids).
+   * Return true to stop the propagation to the parent nodes.
+   */
+  onEdgeReached?: OnEdgeReached;
+  /**
+   * Called with the media, color, digit, channel and page actions while the list or one of its items is focused,
+   * before the list handles the page actions. Return true to stop the propagation.
+   */
+  onKeyAction?: OnKeyAction;
+  /** Actions moving the focus one page backwards. Defaults to `['page_up', 'channel_up']`. */
+  pageUpActions?: KeyAction[];
+  /** Actions moving the focus one page forwards. Defaults to `['page_down', 'channel_down']`. */
+  pageDownActions?: KeyAction[];
+  /** A readable name to focus the list, or to use it in a focus path */
+  focusKey?: string;
+  /** Gives a readable name to the items, so they can be used in a focus path even when they are not rendered */
+  getItemFocusKey?: (item: T, index: number) => string;
+  /**
+   * Tells which item (and which column of this item, for grids) a focus path segment refers to.
+   * Defaults to the item at this index if the segment is a number, or the item matching `getItemFocusKey` otherwise.
+   */
+  getFocusPathItem?: (
+    segment: FocusPathSegment,
+  ) => { index: number; columnIndex?: number } | undefined;
 };
 
 export type SpatialNavigationVirtualizedListWithVirtualNodesRef = {
@@ -1,18 +1,27 @@
-import { useCallback, useEffect, useMemo } from 'preact/hooks';
+import { useCallback, useEffect, useMemo, useRef } from 'preact/hooks';
 import type { JSX } from 'preact';
 import { getRange } from './helpers/getRange';
 import type { NodeOrientation } from '../../types';
-import { getSizeInPxFromOneItemToAnother } from './helpers/getSizeInPxFromOneItemToAnother';
 import { computeAllScrollOffsets } from './helpers/createScrollOffsetArray';
 import { getNumberOfItemsVisibleOnScreen } from './helpers/getNumberOfItemsVisibleOnScreen';
+import { useItemOffsetIndex } from './hooks/useItemOffsetIndex';
+import { useMeasuredItemSize, type ItemMeasurement } from './hooks/useMeasuredItemSize';
 import { getAdditionalNumberOfItemsRendered } from './helpers/getAdditionalNumberOfItemsRendered';
 import type { ScrollBehavior } from './types';
+import { useDragWithMomentum } from './hooks/useDragWithMomentum';
+import { useWheelScroll } from './hooks/useWheelScroll';
 
 export interface VirtualizedListProps<T> {
   data: T[];
   renderItem: (args: { item: T; index: number }) => JSX.Element;
-  /** If vertical the height of an item, otherwise the width */
-  itemSize: number | ((item: T) => number);
+  /**
+   * If vertical the height of an item, otherwise the width.
+   * With `'measured'`, the items are measured once rendered: use it when their size depends on their content.
+   * The `jump-on-scroll` scroll behavior needs a fixed size.
+   */
+  itemSize: number | ((item: T) => number) | 'measured';
+  /** Size of the items that are not rendered yet, with a `'measured'` item size. Defaults to 100px. */
+  estimatedItemSize?: number;
   currentlyFocusedItemIndex: number;
   /**
    * How many items are RENDERED ADDITIONALLY to the minimum amount possible. It impacts virtualization size.
@@ -43,6 +52,27 @@ export interface VirtualizedListProps<T> {
   /** The size of the list in its scrollable axis */
   listSizeInPx: number;
   scrollBehavior?: ScrollBehavior;
+  /**
+   * Renders the list as an infinite carousel: the first item comes back after the last one (and vice versa),
+   * and the list keeps scrolling in the same direction when the focus wraps around.
+   * Should be used with a wrapping navigation node (see `isLooping` on SpatialNavigationVirtualizedList).
+   */
+  isLooping?: boolean;
+  /**
+   * Lets the list be dragged with a finger. Called on release with the index of the item where the list stops.
+   * The list can't be dragged without it.
+   */
+  onDragEnd?: (index: number) => void;
+  /**
+   * Lets the list be scrolled with a mouse wheel or a trackpad.
+   * Called with the number of items to scroll by, negative to scroll backwards.
+   * The list can't be scrolled this way without it.
+   */
+  onWheelScroll?: (numberOfItems: number) => void;
+  /** Multiplies the wheel and trackpad deltas: above 1 scrolls faster, below 1 slower. Defaults to 1. */
+  wheelSensitivity?: number;
+  /** Filled with how many items fit in the list, to move by one page */
+  numberOfItemsVisibleOnScreenRef?: { current: number };
   testID?: string;
 }
 
@@ -80,31 +110,72 @@ const useOnEndReached = ({
   ]);
 };
 
+const modulo = (value: number, divisor: number) => ((value % divisor) + divisor) % divisor;
+
+/**
+ * In a looping list, the focused index alone doesn't tell where we are: going right from the last item
+ * to the first one must keep scrolling right instead of going all the way back to the start.
+ *
+ * So we keep track of an unbounded position, moved by the shortest way from the previous index to the new one.
+ * The item at position `p` is `data[p mod data.length]`, in the loop number `floor(p / data.length)`.
+ */
+const useLoopingPosition = ({
+  currentlyFocusedItemIndex,
+  numberOfItems,
+  isLooping,
+}: {
+  currentlyFocusedItemIndex: number;
+  numberOfItems: number;
+  isLooping: boolean;
+}) => {
+  const position = useRef(currentlyFocusedItemIndex);
+  const previousIndex = useRef(currentlyFocusedItemIndex);
+
+  if (!isLooping || numberOfItems === 0) {
+    position.current = currentlyFocusedItemIndex;
+  } else if (previousIndex.current !== currentlyFocusedItemIndex) {
+    let delta = modulo(currentlyFocusedItemIndex - previousIndex.current, numberOfItems);
+    if (delta > numberOfItems / 2) {
+      delta -= numberOfItems;
+    }
+    position.current += delta;
+  }
+  previousIndex.current = currentlyFocusedItemIndex;
+
+  return position.current;
+};
+
 function ItemContainerWithAnimatedStyle<T>({
   item,
   index,
   renderItem,
-  itemSize,
   vertical,
-  data,
+  offset,
+  itemMeasurement,
 }: {
   item: T;
   index: number;
   renderItem: VirtualizedListProps<T>['renderItem'];
-  itemSize: number | ((item: T) => number);
   vertical: boolean;
-  data: T[];
+  /** Where the item starts in the list, including the size of the loops before its own for looping lists */
+  offset: number;
+  itemMeasurement?: ItemMeasurement<T>;
 }) {
-  const computeOffset = useCallback(
-    (_item: T, index: number) =>
-      typeof itemSize === 'number'
-        ? index * itemSize
-        : data.slice(0, index).reduce((acc, item) => acc + itemSize(item), 0),
-    [data, itemSize],
-  );
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!itemMeasurement || !containerRef.current) return;
+    return itemMeasurement.observeItem(item, containerRef.current);
+  }, [itemMeasurement, item]);
+
+  // Without a ResizeObserver, the content of the item may have changed its size on any render
+  useEffect(() => {
+    if (itemMeasurement && containerRef.current) {
+      itemMeasurement.measureItem(item, containerRef.current);
+    }
+  });
 
   const style = useMemo<JSX.CSSProperties>(() => {
-    const offset = computeOffset(item, index);
     // Chrome 38 requires explicit 'px' suffix for positioning
     return {
       position: 'absolute',
@@ -117,11 +188,66 @@ function ItemContainerWithAnimatedStyle<T>({
       WebkitBackfaceVisibility: 'hidden',
       backfaceVisibility: 'hidden',
     };
-  }, [computeOffset, item, index, vertical]);
+  }, [offset, vertical]);
 
-  return <div style={style}>{renderItem({ item, index })}</div>;
+  return (
+    <div ref={containerRef} style={style}>
+      {renderItem({ item, index })}
+    </div>
+  );
 }
 
+/**
+ * Lists the positions between the bounds of the range.
+ * Positions are the indexes of the data, except for looping lists where they can go past its bounds.
+ */
+const getPositionsToRender = (
+  range: { start: number; end: number },
+  numberOfItems: number | undefined,
+) => {
+  const lastPosition =
+    numberOfItems !== undefined ? Math.min(range.end, numberOfItems - 1) : range.end;
+  const positions: number[] = [];
+  for (let position = range.start; position <= lastPosition; position++) {
+    positions.push(position);
+  }
+  return positions;
+};
+
+/**
+ * Finds the item whose scroll offset is the closest to a translation of the list.
+ * For looping lists, the items of the previous and next loops are candidates too.
+ */
+const getIndexClosestToTranslation = ({
+  translation,
+  allScrollOffsets,
+  numberOfItems,
+  currentLoop,
+  loopSize,
+  isLooping,
+}: {
+  translation: number;
+  allScrollOffsets: number[];
+  numberOfItems: number;
+  currentLoop: number;
+  loopSize: number;
+  isLooping: boolean;
+}) => {
+  const loops = isLooping ? [currentLoop - 1, currentLoop, currentLoop + 1] : [currentLoop];
+  let closestIndex = 0;
+  let closestDistance = Infinity;
+  for (let index = 0; index < Math.min(numberOfItems, allScrollOffsets.length); index++) {
+    loops.forEach((loop) => {
+      const distance = Math.abs(allScrollOffsets[index] - loop * loopSize - translation);
+      if (distance < closestDistance) {
+        closestDistance = distance;
+        closestIndex = index;
+      }
+    });
+  }
+  return closestIndex;
+};
+
 /**
  * DO NOT use this component directly !
  * You should use the component SpatialNavigationVirtualizedList.tsx to render navigable lists of components.
@@ -134,6 +260,7 @@ export function VirtualizedList<T>({
   data,
   renderItem,
   itemSize,
+  estimatedItemSize,
   currentlyFocusedItemIndex,
   additionalItemsRendered = 2,
   onEndReached,
@@ -145,13 +272,35 @@ export function VirtualizedList<T>({
   scrollDuration = 200,
   listSizeInPx,
   scrollBehavior = 'stick-to-start',
+  isLooping = false,
+  onDragEnd,
+  onWheelScroll,
+  wheelSensitivity,
+  numberOfItemsVisibleOnScreenRef,
   testID,
 }: VirtualizedListProps<T>) {
-  const numberOfItemsVisibleOnScreen = getNumberOfItemsVisibleOnScreen({
+  const vertical = orientation === 'vertical';
+
+  const isMeasuringItems = itemSize === 'measured';
+  const measuredItemSize = useMeasuredItemSize({
+    data,
+    vertical,
+    estimatedItemSize,
+    isEnabled: isMeasuringItems,
+  });
+  const itemMeasurement = isMeasuringItems ? measuredItemSize : undefined;
+  const itemOffsets = useItemOffsetIndex(
     data,
+    itemSize === 'measured' ? measuredItemSize.getItemSize : itemSize,
+  );
+
+  const numberOfItemsVisibleOnScreen = getNumberOfItemsVisibleOnScreen({
+    itemOffsets,
     listSizeInPx,
-    itemSize,
   });
+  if (numberOfItemsVisibleOnScreenRef) {
+    numberOfItemsVisibleOnScreenRef.current = numberOfItemsVisibleOnScreen;
+  }
 
   const numberOfItemsToRender = getAdditionalNumberOfItemsRendered(
     scrollBehavior,
@@ -159,34 +308,45 @@ export function VirtualizedList<T>({
     additionalItemsRendered,
   );
 
+  const isLoopingList = isLooping && data.length > 0;
+  const loopingPosition = useLoopingPosition({
+    currentlyFocusedItemIndex,
+    numberOfItems: data.length,
+    isLooping: isLoopingList,
+  });
+
   const range = getRange({
     data,
-    currentlyFocusedItemIndex,
+    currentlyFocusedItemIndex: loopingPosition,
     numberOfRenderedItems: numberOfItemsToRender,
     numberOfItemsVisibleOnScreen,
     scrollBehavior,
+    isLooping: isLoopingList,
   });
 
-  const vertical = orientation === 'vertical';
-
-  const totalVirtualizedListSize = useMemo(
-    () => getSizeInPxFromOneItemToAnother(data, itemSize, 0, data.length),
-    [data, itemSize],
-  );
+  const totalVirtualizedListSize = itemOffsets.totalSize;
 
-  const dataSliceToRender = data.slice(range.start, range.end + 1);
+  const positionsToRender = getPositionsToRender(range, isLoopingList ? undefined : data.length);
 
   const allScrollOffsets = useMemo(
     () =>
       computeAllScrollOffsets({
-        itemSize: itemSize,
+        itemOffsets: itemOffsets,
         nbMaxOfItems: nbMaxOfItems !== undefined ? nbMaxOfItems : data.length,
         numberOfItemsVisibleOnScreen: numberOfItemsVisibleOnScreen,
         scrollBehavior: scrollBehavior,
-        data: data,
         listSizeInPx: listSizeInPx,
+        isLooping: isLoopingList,
       }),
-    [data, itemSize, listSizeInPx, nbMaxOfItems, numberOfItemsVisibleOnScreen, scrollBehavior],
+    [
+      itemOffsets,
+      data.length,
+      listSizeInPx,
+      nbMaxOfItems,
+      numberOfItemsVisibleOnScreen,
+      scrollBehavior,
+      isLoopingList,
+    ],
   );
 
   useOnEndReached({
@@ -198,7 +358,41 @@ export function VirtualizedList<T>({
   });
 
   // Web animation using CSS transitions with top/left positioning for legacy browser compatibility
-  const newTranslationValue = allScrollOffsets[currentlyFocusedItemIndex];
+  const currentLoop = isLoopingList ? Math.floor(loopingPosition / data.length) : 0;
+  const newTranslationValue =
+    allScrollOffsets[currentlyFocusedItemIndex] - currentLoop * totalVirtualizedListSize;
+
+  const { dragOffset, isDragging, dragHandlers } = useDragWithMomentum({
+    vertical,
+    onDragEnd: onDragEnd
+      ? (projectedDragOffset) =>
+          onDragEnd(
+            getIndexClosestToTranslation({
+              translation: newTranslationValue + projectedDragOffset,
+              allScrollOffsets,
+              numberOfItems: data.length,
+              currentLoop,
+              loopSize: totalVirtualizedListSize,
+              isLooping: isLoopingList,
+            }),
+          )
+      : undefined,
+  });
+  const { wheelHandlers } = useWheelScroll({
+    vertical,
+    sensitivity: wheelSensitivity,
+    onWheelScroll,
+  });
+  // The list follows the finger without animation while it is dragged
+  const translationValue = newTranslationValue + dragOffset;
+  // New measurements move the items and the list together, without animation, so that the focused item stays in place
+  const previousRender = useRef({ itemOffsets, currentlyFocusedItemIndex });
+  const isRepositioningMeasuredItems =
+    itemMeasurement !== undefined &&
+    previousRender.current.itemOffsets !== itemOffsets &&
+    previousRender.current.currentlyFocusedItemIndex === currentlyFocusedItemIndex;
+  previousRender.current = { itemOffsets, currentlyFocusedItemIndex };
+  const transitionDuration = isDragging || isRepositioningMeasuredItems ? 0 : scrollDuration;
 
   /*
    * Use the actual index as the key to avoid duplicate key issues.
@@ -225,16 +419,16 @@ export function VirtualizedList<T>({
   // Scrollable content wrapper: sized to virtual list, can be animated
   const scrollableContentStyle = useMemo<JSX.CSSProperties>(() => {
     const translateValue = vertical 
-      ? `translate3d(0, ${newTranslationValue}px, 0)`
-      : `translate3d(${newTranslationValue}px, 0, 0)`;
+      ? `translate3d(0, ${translationValue}px, 0)`
+      : `translate3d(${translationValue}px, 0, 0)`;
     
     return {
       position: 'relative',
       width: vertical ? '100%' : `${totalVirtualizedListSize}px`,
       height: vertical ? `${totalVirtualizedListSize}px` : '100%',
       // Chrome 38 compatible transitions using transform
-      WebkitTransitionDuration: `${scrollDuration}ms`,
-      transitionDuration: `${scrollDuration}ms`,
+      WebkitTransitionDuration: `${transitionDuration}ms`,
+      transitionDuration: `${transitionDuration}ms`,
       WebkitTransitionProperty: '-webkit-transform, transform',
       transitionProperty: 'transform',
       WebkitTransitionTimingFunction: 'ease-out',
@@ -246,22 +440,25 @@ export function VirtualizedList<T>({
       minHeight: vertical ? 0 : '100%',
       minWidth: vertical ? '100%' : 0,
     };
-  }, [vertical, totalVirtualizedListSize, scrollDuration, newTranslationValue]);
+  }, [vertical, totalVirtualizedListSize, transitionDuration, translationValue]);
 
   return (
-    <div style={viewportStyle} data-testid={testID}>
+    <div style={viewportStyle} data-testid={testID} {...dragHandlers} {...wheelHandlers}>
       <div style={scrollableContentStyle}>
-        {dataSliceToRender.map((item, virtualIndex) => {
-          const index = range.start + virtualIndex;
+        {positionsToRender.map((position) => {
+          const index = isLoopingList ? modulo(position, data.length) : position;
+          const loop = isLoopingList ? Math.floor(position / data.length) : 0;
           return (
             <ItemContainerWithAnimatedStyle<T>
-              key={keyExtractor ? keyExtractor(index) : defaultKeyExtractor(index)}
+              key={
+                keyExtractor && !isLoopingList ? keyExtractor(index) : defaultKeyExtractor(position)
+              }
               renderItem={renderItem}
-              item={item}
+              item={data[index]}
               index={index}
-              itemSize={itemSize}
               vertical={vertical}
-              data={data}
+              offset={itemOffsets.getOffset(index) + loop * totalVirtualizedListSize}
+              itemMeasurement={itemMeasurement}
             />
           );
         })}
@@ -1,47 +1,40 @@
 import type { ScrollBehavior } from '../types';
+import type { ItemOffsetIndex } from './createItemOffsetIndex';
 import { getSizeInPxFromOneItemToAnother } from './getSizeInPxFromOneItemToAnother';
 
 const computeStickToStartTranslation = <T>({
   currentlyFocusedItemIndex,
-  itemSizeInPx,
-  data,
+  itemOffsets,
   maxPossibleLeftAlignedIndex,
 }: {
   currentlyFocusedItemIndex: number;
-  itemSizeInPx: number | ((item: T) => number);
-  data: T[];
+  itemOffsets: ItemOffsetIndex<T>;
   maxPossibleLeftAlignedIndex: number;
 }) => {
   const scrollOffset =
     currentlyFocusedItemIndex < maxPossibleLeftAlignedIndex
-      ? getSizeInPxFromOneItemToAnother(data, itemSizeInPx, 0, currentlyFocusedItemIndex)
-      : getSizeInPxFromOneItemToAnother(data, itemSizeInPx, 0, maxPossibleLeftAlignedIndex);
+      ? getSizeInPxFromOneItemToAnother(itemOffsets, 0, currentlyFocusedItemIndex)
+      : getSizeInPxFromOneItemToAnother(itemOffsets, 0, maxPossibleLeftAlignedIndex);
   return -scrollOffset;
 };
 
 const computeStickToEndTranslation = <T>({
   currentlyFocusedItemIndex,
-  itemSizeInPx,
-  data,
+  itemOffsets,
   listSizeInPx,
   maxPossibleRightAlignedIndex,
 }: {
   currentlyFocusedItemIndex: number;
-  itemSizeInPx: number | ((item: T) => number);
-  data: T[];
+  itemOffsets: ItemOffsetIndex<T>;
   listSizeInPx: number;
   maxPossibleRightAlignedIndex: number;
 }) => {
   if (currentlyFocusedItemIndex <= maxPossibleRightAlignedIndex) return -0;
 
-  const currentlyFocusedItemSize =
-    typeof itemSizeInPx === 'function'
-      ? itemSizeInPx(data[currentlyFocusedItemIndex])
-      : itemSizeInPx;
+  const currentlyFocusedItemSize = itemOffsets.getItemSize(currentlyFocusedItemIndex);
 
   const sizeOfListFromStartToCurrentlyFocusedItem = getSizeInPxFromOneItemToAnother(
-    data,
-    itemSizeInPx,
+    itemOffsets,
     0,
     currentlyFocusedItemIndex,
   );
@@ -75,15 +68,13 @@ const computeJumpOnScrollTranslation = <T>({
 
 const computeCenterTranslation = <T>({
   currentlyFocusedItemIndex,
-  itemSizeInPx,
-  data,
+  itemOffsets,
   listSizeInPx,
   numberOfItemsVisibleOnScreen,
   maxPossibleRightAlignedIndex,
 }: {
   currentlyFocusedItemIndex: number;
-  itemSizeInPx: number | ((item: T) => number);
-  data: T[];
+  itemOffsets: ItemOffsetIndex<T>;
   listSizeInPx: number;
   numberOfItemsVisibleOnScreen: number;
   maxPossibleLeftAlignedIndex: number;
@@ -97,76 +88,121 @@ const computeCenterTranslation = <T>({
   }
 
   // At the end of the list, use stick-to-end
-  if (currentlyFocusedItemIndex >= data.length - centerThreshold) {
+  if (currentlyFocusedItemIndex >= itemOffsets.data.length - centerThreshold) {
     return computeStickToEndTranslation({
       currentlyFocusedItemIndex,
-      itemSizeInPx,
-      data,
+      itemOffsets,
       listSizeInPx,
       maxPossibleRightAlignedIndex,
     });
   }
 
   // In the middle, keep item centered
-  const currentItemSize = typeof itemSizeInPx === 'function'
-    ? itemSizeInPx(data[currentlyFocusedItemIndex])
-    : itemSizeInPx;
+  const currentItemSize = itemOffsets.getItemSize(currentlyFocusedItemIndex);
   
-  const itemOffset = getSizeInPxFromOneItemToAnother(data, itemSizeInPx, 0, currentlyFocusedItemIndex);
+  const itemOffset = getSizeInPxFromOneItemToAnother(itemOffsets, 0, currentlyFocusedItemIndex);
   const centerOffset = (listSizeInPx - currentItemSize) / 2;
   
   return -(itemOffset - centerOffset);
 };
 
+/**
+ * In a looping list, the focused item is never stuck against the start or the end of the data:
+ * it is always aligned the same way, the items of the next or previous loop filling the gap.
+ */
+const computeLoopingTranslation = <T>({
+  currentlyFocusedItemIndex,
+  itemOffsets,
+  listSizeInPx,
+  numberOfItemsVisibleOnScreen,
+  scrollBehavior,
+}: {
+  currentlyFocusedItemIndex: number;
+  itemOffsets: ItemOffsetIndex<T>;
+  listSizeInPx: number;
+  numberOfItemsVisibleOnScreen: number;
+  scrollBehavior: ScrollBehavior;
+}) => {
+  const currentItemSize = itemOffsets.getItemSize(currentlyFocusedItemIndex);
+  const itemOffset = getSizeInPxFromOneItemToAnother(itemOffsets, 0, currentlyFocusedItemIndex);
+
+  switch (scrollBehavior) {
+    case 'stick-to-start':
+      return -itemOffset;
+    case 'stick-to-end':
+      return -(itemOffset + currentItemSize - listSizeInPx);
+    case 'jump-on-scroll': {
+      const { itemSize } = itemOffsets;
+      if (typeof itemSize === 'function')
+        throw new Error('jump-on-scroll scroll behavior is not supported with dynamic item size');
+
+      const indexOfItemToFocus =
+        currentlyFocusedItemIndex - (currentlyFocusedItemIndex % numberOfItemsVisibleOnScreen);
+      return -(indexOfItemToFocus * itemSize);
+    }
+    case 'center':
+      return -(itemOffset - (listSizeInPx - currentItemSize) / 2);
+    default:
+      throw new Error(`Invalid scroll behavior: ${scrollBehavior}`);
+  }
+};
+
 export const computeTranslation = <T>({
   currentlyFocusedItemIndex,
-  itemSizeInPx,
+  itemOffsets,
   nbMaxOfItems,
   numberOfItemsVisibleOnScreen,
   scrollBehavior,
-  data,
   listSizeInPx,
   maxPossibleLeftAlignedIndex,
   maxPossibleRightAlignedIndex,
+  isLooping = false,
 }: {
   currentlyFocusedItemIndex: number;
-  itemSizeInPx: number | ((item: T) => number);
+  itemOffsets: ItemOffsetIndex<T>;
   nbMaxOfItems: number;
   numberOfItemsVisibleOnScreen: number;
   scrollBehavior: ScrollBehavior;
-  data: T[];
   listSizeInPx: number;
   maxPossibleLeftAlignedIndex: number;
   maxPossibleRightAlignedIndex: number;
+  isLooping?: boolean;
 }) => {
+  if (isLooping) {
+    return computeLoopingTranslation({
+      currentlyFocusedItemIndex,
+      itemOffsets,
+      listSizeInPx,
+      numberOfItemsVisibleOnScreen,
+      scrollBehavior,
+    });
+  }
+
   switch (scrollBehavior) {
     case 'stick-to-start':
       return computeStickToStartTranslation({
         currentlyFocusedItemIndex,
-        itemSizeInPx,
-        data,
+        itemOffsets,
         maxPossibleLeftAlignedIndex,
       });
     case 'stick-to-end':
       return computeStickToEndTranslation({
         currentlyFocusedItemIndex,
-        itemSizeInPx,
-        data,
+        itemOffsets,
         listSizeInPx,
         maxPossibleRightAlignedIndex,
       });
     case 'jump-on-scroll':
       return computeJumpOnScrollTranslation({
         currentlyFocusedItemIndex,
-        itemSizeInPx,
+        itemSizeInPx: itemOffsets.itemSize,
         nbMaxOfItems,
         numberOfItemsVisibleOnScreen,
       });
     case 'center':
       return computeCenterTranslation({
         currentlyFocusedItemIndex,
-        itemSizeInPx,
-        data,
+        itemOffsets,
         listSizeInPx,
         numberOfItemsVisibleOnScreen,
         maxPossibleLeftAlignedIndex,
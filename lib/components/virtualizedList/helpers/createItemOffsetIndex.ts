@@ -0,0 +1,72 @@
+/**
+ * Where each item of a list starts, so that positioning, range and translation computations don't have to
+ * sum the sizes of all the previous items again and again.
+ */
+export type ItemOffsetIndex<T> = {
+  data: T[];
+  itemSize: number | ((item: T) => number);
+  /** Sum of the sizes of the items before this index. The offset of `data.length` is the size of the whole list. */
+  getOffset: (index: number) => number;
+  getItemSize: (index: number) => number;
+  totalSize: number;
+  minItemSize: number;
+};
+
+const createFixedSizeItemOffsetIndex = <T>(data: T[], itemSize: number): ItemOffsetIndex<T> => ({
+  data,
+  itemSize,
+  getOffset: (index) => Math.max(0, Math.min(index, data.length)) * itemSize,
+  getItemSize: () => itemSize,
+  totalSize: data.length * itemSize,
+  minItemSize: itemSize,
+});
+
+/**
+ * Builds the offsets of the items as prefix sums of their sizes.
+ *
+ * When the data only got new items at its end (pagination), and the item size function is the same,
+ * the offsets of the previous index are kept and only the new items are measured.
+ */
+export const createItemOffsetIndex = <T>(
+  data: T[],
+  itemSize: number | ((item: T) => number),
+  previousIndex?: ItemOffsetIndex<T>,
+): ItemOffsetIndex<T> => {
+  if (typeof itemSize === 'number') return createFixedSizeItemOffsetIndex(data, itemSize);
+
+  const canReusePreviousIndex =
+    previousIndex !== undefined &&
+    previousIndex.itemSize === itemSize &&
+    previousIndex.data.length <= data.length &&
+    previousIndex.data.every((item, index) => item === data[index]);
+
+  const sizes: number[] = [];
+  const offsets: number[] = [0];
+  let minItemSize = Infinity;
+  let firstNewIndex = 0;
+
+  if (canReusePreviousIndex) {
+    for (let index = 0; index < previousIndex.data.length; index++) {
+      sizes.push(previousIndex.getItemSize(index));
+      offsets.push(previousIndex.getOffset(index + 1));
+    }
+    minItemSize = previousIndex.data.length > 0 ? previousIndex.minItemSize : Infinity;
+    firstNewIndex = previousIndex.data.length;
+  }
+
+  for (let index = firstNewIndex; index < data.length; index++) {
+    const size = itemSize(data[index]);
+    sizes.push(size);
+    offsets.push(offsets[index] + size);
+    if (size < minItemSize) minItemSize = size;
+  }
+
+  return {
+    data,
+    itemSize,
+    getOffset: (index) => offsets[Math.max(0, Math.min(index, data.length))],
+    getItemSize: (index) => sizes[index],
+    totalSize: offsets[data.length],
+    minItemSize: data.length > 0 ? minItemSize : 0,
+  };
+};
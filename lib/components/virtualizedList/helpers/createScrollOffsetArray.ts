@@ -1,40 +1,45 @@
 import type { ScrollBehavior } from '../types';
+import type { ItemOffsetIndex } from './createItemOffsetIndex';
 import { computeTranslation } from './computeTranslation';
 import { getLastLeftItemIndex, getLastRightItemIndex } from './getLastItemIndex';
 
 /**
  * This function precomputes all scroll offsets
  * It won't move until data moves or the itemSize changes
+ *
+ * For looping lists, these are the offsets of the first loop: the offsets of the other loops are
+ * shifted by the size of the whole list.
  */
 export const computeAllScrollOffsets = <T>({
-  itemSize,
+  itemOffsets,
   nbMaxOfItems,
   numberOfItemsVisibleOnScreen,
   scrollBehavior,
-  data,
   listSizeInPx,
+  isLooping = false,
 }: {
-  itemSize: number | ((item: T) => number);
+  itemOffsets: ItemOffsetIndex<T>;
   nbMaxOfItems: number;
   numberOfItemsVisibleOnScreen: number;
   scrollBehavior: ScrollBehavior;
-  data: T[];
   listSizeInPx: number;
+  isLooping?: boolean;
 }) => {
-  const maxPossibleLeftAlignedIndex = getLastLeftItemIndex<T>(data, itemSize, listSizeInPx);
-  const maxPossibleRightAlignedIndex = getLastRightItemIndex<T>(data, itemSize, listSizeInPx);
+  const maxPossibleLeftAlignedIndex = getLastLeftItemIndex(itemOffsets, listSizeInPx);
+  const maxPossibleRightAlignedIndex = getLastRightItemIndex(itemOffsets, listSizeInPx);
 
+  const { data } = itemOffsets;
   const scrollOffsets = data.map((_, index) =>
     computeTranslation({
       currentlyFocusedItemIndex: index,
-      itemSizeInPx: itemSize,
+      itemOffsets: itemOffsets,
       nbMaxOfItems: nbMaxOfItems !== undefined ? nbMaxOfItems : data.length,
       numberOfItemsVisibleOnScreen: numberOfItemsVisibleOnScreen,
       scrollBehavior: scrollBehavior,
-      data: data,
       listSizeInPx: listSizeInPx,
       maxPossibleLeftAlignedIndex: maxPossibleLeftAlignedIndex,
       maxPossibleRightAlignedIndex: maxPossibleRightAlignedIndex,
+      isLooping: isLooping,
     }),
   );
 
@@ -1,3 +1,5 @@
+import type { ItemOffsetIndex } from './createItemOffsetIndex';
+
 /**
  * This function is used to compute the index of the last item that allows the end of the list to fully fit in the screen.
  * It is used when scrolling on stick-to-start mode.
@@ -23,15 +25,14 @@
  *
  */
 export const getLastLeftItemIndex = <T>(
-  data: T[],
-  itemSizeInPx: number | ((item: T) => number),
+  itemOffsets: ItemOffsetIndex<T>,
   listSizeInPx: number,
 ): number => {
-  if (typeof itemSizeInPx === 'function') {
-    let totalSize = 0;
+  const { data, itemSize: itemSizeInPx, totalSize: listTotalSize } = itemOffsets;
 
+  if (typeof itemSizeInPx === 'function') {
     for (let index = data.length - 1; index >= 0; index--) {
-      totalSize += itemSizeInPx(data[index]);
+      const totalSize = listTotalSize - itemOffsets.getOffset(index);
 
       if (totalSize >= listSizeInPx) {
         // If we exceed the list size, we return the index of the previous item (list is iterated backwards, so index + 1)
@@ -76,15 +77,14 @@ export const getLastLeftItemIndex = <T>(
  *
  */
 export const getLastRightItemIndex = <T>(
-  data: T[],
-  itemSizeInPx: number | ((item: T) => number),
+  itemOffsets: ItemOffsetIndex<T>,
   listSizeInPx: number,
 ): number => {
-  if (typeof itemSizeInPx === 'function') {
-    let totalSize = 0;
+  const { data, itemSize: itemSizeInPx } = itemOffsets;
 
+  if (typeof itemSizeInPx === 'function') {
     for (let index = 0; index < data.length; index++) {
-      totalSize += itemSizeInPx(data[index]);
+      const totalSize = itemOffsets.getOffset(index + 1);
 
       if (totalSize >= listSizeInPx) {
         // If we exceed the list size, we return the index of the previous item
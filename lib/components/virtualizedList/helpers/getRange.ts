@@ -116,6 +116,42 @@ const getRawStartAndEndIndexes = ({
   }
 };
 
+/**
+ * In a looping list, the indexes are positions that go past the bounds of the data (the item at position
+ * `data.length` is the first item of the next loop), so they never need to be clamped.
+ * We still never render more positions than items, otherwise an item would be rendered twice.
+ */
+const getLoopingRange = ({
+  data,
+  currentlyFocusedItemIndex,
+  numberOfRenderedItems,
+  numberOfItemsVisibleOnScreen,
+  scrollBehavior,
+}: {
+  data: Array<unknown>;
+  currentlyFocusedItemIndex: number;
+  numberOfRenderedItems: number;
+  numberOfItemsVisibleOnScreen: number;
+  scrollBehavior: ScrollBehavior;
+}) => {
+  const { rawStartIndex, rawEndIndex } = getRawStartAndEndIndexes({
+    currentlyFocusedItemIndex,
+    numberOfItemsVisibleOnScreen,
+    numberOfItemsNotVisible: numberOfRenderedItems - numberOfItemsVisibleOnScreen,
+    scrollBehavior,
+  });
+
+  if (rawEndIndex - rawStartIndex + 1 <= data.length) {
+    return { start: rawStartIndex, end: rawEndIndex };
+  }
+
+  const start = Math.max(
+    rawStartIndex,
+    currentlyFocusedItemIndex - Math.floor((data.length - 1) / 2),
+  );
+  return { start, end: start + data.length - 1 };
+};
+
 /**
  * Computes an array slice for virtualization
  * Have a look at the tests to get examples!
@@ -129,12 +165,14 @@ export const getRange = ({
   numberOfRenderedItems = 8,
   numberOfItemsVisibleOnScreen,
   scrollBehavior,
+  isLooping = false,
 }: {
   data: Array<unknown>;
   currentlyFocusedItemIndex: number;
   numberOfRenderedItems?: number;
   numberOfItemsVisibleOnScreen: number;
   scrollBehavior: ScrollBehavior;
+  isLooping?: boolean;
 }): { start: number; end: number } => {
   if (numberOfRenderedItems <= 0) {
     console.error(
@@ -143,7 +181,7 @@ export const getRange = ({
     return { start: 0, end: 0 };
   }
 
-  const result = getRangeWithoutFloatHandling({
+  const result = (isLooping ? getLoopingRange : getRangeWithoutFloatHandling)({
     data,
     currentlyFocusedItemIndex,
     numberOfRenderedItems,
@@ -0,0 +1,128 @@
+import { useMemo, useRef, useState } from 'preact/hooks';
+import type { JSX } from 'preact';
+
+/** A touch moving less than this is a tap, left to the items */
+const DRAG_THRESHOLD_PX = 10;
+/** Once released, the list keeps going at the speed of the finger for this long */
+const MOMENTUM_DURATION_MS = 300;
+/** Only the last moves of the finger are used to compute its speed */
+const VELOCITY_SAMPLING_DURATION_MS = 100;
+
+type Sample = { position: number; time: number };
+
+type Gesture = {
+  startX: number;
+  startY: number;
+  /** Undecided until the finger has moved enough to know whether it goes along the list */
+  isDraggingList: boolean | undefined;
+  samples: Sample[];
+};
+
+/**
+ * Lets the list be dragged with a finger.
+ * `onDragEnd` gets how far the list has been dragged, plus how far it would keep going with the speed of the finger.
+ *
+ * Gestures across the list are left to its parents (and to the touch remote control),
+ * gestures along it are not propagated so they only move this list.
+ */
+export const useDragWithMomentum = ({
+  vertical,
+  onDragEnd,
+}: {
+  vertical: boolean;
+  onDragEnd?: (projectedDragOffset: number) => void;
+}) => {
+  const [dragOffset, setDragOffset] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const gesture = useRef<Gesture | null>(null);
+  const hasJustDragged = useRef(false);
+
+  // The handlers are created once, so they need to read the latest callback.
+  const currentOnDragEnd = useRef(onDragEnd);
+  currentOnDragEnd.current = onDragEnd;
+
+  const dragHandlers = useMemo(() => {
+    const getPosition = (touch: Touch) => (vertical ? touch.clientY : touch.clientX);
+
+    const endGesture = () => {
+      gesture.current = null;
+      setDragOffset(0);
+      setIsDragging(false);
+    };
+
+    return {
+      onTouchStart: (event: JSX.TargetedTouchEvent<HTMLDivElement>) => {
+        hasJustDragged.current = false;
+        if (event.touches.length !== 1) {
+          gesture.current = null;
+          return;
+        }
+        const touch = event.touches[0];
+        gesture.current = {
+          startX: touch.clientX,
+          startY: touch.clientY,
+          isDraggingList: undefined,
+          samples: [{ position: getPosition(touch), time: Date.now() }],
+        };
+      },
+      onTouchMove: (event: JSX.TargetedTouchEvent<HTMLDivElement>) => {
+        const currentGesture = gesture.current;
+        if (!currentGesture || currentGesture.isDraggingList === false) return;
+
+        const touch = event.touches[0];
+        const deltaX = touch.clientX - currentGesture.startX;
+        const deltaY = touch.clientY - currentGesture.startY;
+        const mainAxisDelta = vertical ? deltaY : deltaX;
+        const crossAxisDelta = vertical ? deltaX : deltaY;
+
+        if (currentGesture.isDraggingList === undefined) {
+          if (Math.max(Math.abs(deltaX), Math.abs(deltaY)) < DRAG_THRESHOLD_PX) return;
+          currentGesture.isDraggingList = Math.abs(mainAxisDelta) > Math.abs(crossAxisDelta);
+          if (!currentGesture.isDraggingList) return;
+          setIsDragging(true);
+        }
+
+        event.stopPropagation();
+        if (event.cancelable) event.preventDefault();
+
+        const now = Date.now();
+        currentGesture.samples.push({ position: getPosition(touch), time: now });
+        currentGesture.samples = currentGesture.samples.filter(
+          (sample) => now - sample.time <= VELOCITY_SAMPLING_DURATION_MS,
+        );
+        setDragOffset(mainAxisDelta);
+      },
+      onTouchEnd: (event: JSX.TargetedTouchEvent<HTMLDivElement>) => {
+        const currentGesture = gesture.current;
+        if (!currentGesture || !currentGesture.isDraggingList) {
+          gesture.current = null;
+          return;
+        }
+        event.stopPropagation();
+        hasJustDragged.current = true;
+
+        const touch = event.changedTouches[0];
+        const position = getPosition(touch);
+        const startPosition = vertical ? currentGesture.startY : currentGesture.startX;
+        const firstSample = currentGesture.samples[0];
+        const elapsedTime = Date.now() - firstSample.time;
+        const velocity = elapsedTime > 0 ? (position - firstSample.position) / elapsedTime : 0;
+
+        endGesture();
+        if (currentOnDragEnd.current) {
+          currentOnDragEnd.current(position - startPosition + velocity * MOMENTUM_DURATION_MS);
+        }
+      },
+      onTouchCancel: () => endGesture(),
+      // A drag ends on an item, which must not be selected.
+      onClickCapture: (event: JSX.TargetedMouseEvent<HTMLDivElement>) => {
+        if (!hasJustDragged.current) return;
+        hasJustDragged.current = false;
+        event.stopPropagation();
+        event.preventDefault();
+      },
+    };
+  }, [vertical]);
+
+  return { dragOffset, isDragging, dragHandlers: onDragEnd ? dragHandlers : undefined };
+};
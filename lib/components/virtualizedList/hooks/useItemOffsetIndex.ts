@@ -0,0 +1,22 @@
+import { useMemo, useRef } from 'preact/hooks';
+import { createItemOffsetIndex, type ItemOffsetIndex } from '../helpers/createItemOffsetIndex';
+
+/**
+ * The offsets of the items of a list, shared by their positioning, the range and the translation computations.
+ * They are only computed again when the data or the item size change, and only for the new items when
+ * items were appended to the data.
+ */
+export const useItemOffsetIndex = <T>(
+  data: T[],
+  itemSize: number | ((item: T) => number),
+): ItemOffsetIndex<T> => {
+  const previousItemOffsets = useRef<ItemOffsetIndex<T> | undefined>(undefined);
+
+  const itemOffsets = useMemo(
+    () => createItemOffsetIndex(data, itemSize, previousItemOffsets.current),
+    [data, itemSize],
+  );
+  previousItemOffsets.current = itemOffsets;
+
+  return itemOffsets;
+};
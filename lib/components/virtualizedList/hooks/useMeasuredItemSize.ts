@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'preact/hooks';
+import { requestFrame } from '../../../utils/helpers';
+
+/** Size of the items that are not rendered yet, when no estimate is given */
+export const DEFAULT_ESTIMATED_ITEM_SIZE_PX = 100;
+
+export interface ItemMeasurement<T> {
+  /** Size of an item: the measured one, or the estimated one until the item is rendered */
+  getItemSize: (item: T) => number;
+  /** Starts measuring the element of an item. Returns a function to stop. */
+  observeItem: (item: T, element: HTMLElement) => () => void;
+  /** Measures the element of an item again, for browsers that can't observe sizes (Chrome 38) */
+  measureItem: (item: T, element: HTMLElement) => void;
+}
+
+const canObserveSizes = () => typeof ResizeObserver !== 'undefined';
+
+/**
+ * Measures the items of a list as they render, for lists whose item sizes are not known up front.
+ *
+ * Items are told apart by reference, so their sizes are kept when the data is paginated or reordered.
+ * Sizes are observed with a ResizeObserver where available, and read again after each render of the
+ * item otherwise. All the sizes measured during a frame update the list at once.
+ */
+export const useMeasuredItemSize = <T>({
+  data,
+  vertical,
+  estimatedItemSize = DEFAULT_ESTIMATED_ITEM_SIZE_PX,
+  isEnabled,
+}: {
+  data: T[];
+  vertical: boolean;
+  estimatedItemSize?: number;
+  isEnabled: boolean;
+}): ItemMeasurement<T> => {
+  const measuredSizes = useRef(new Map<T, number>());
+  // A copy of the sizes for each batch of measurements, so that the offsets of the items are computed again
+  const [sizes, setSizes] = useState(() => new Map<T, number>());
+  const cancelPendingUpdate = useRef<(() => void) | null>(null);
+
+  const recordSize = useCallback(
+    (item: T, element: HTMLElement) => {
+      const size = vertical ? element.offsetHeight : element.offsetWidth;
+      // Hidden or detached elements have no size, keep the previous one
+      if (size === 0 || measuredSizes.current.get(item) === size) return;
+
+      measuredSizes.current.set(item, size);
+      if (cancelPendingUpdate.current) return;
+      cancelPendingUpdate.current = requestFrame(() => {
+        cancelPendingUpdate.current = null;
+        setSizes(new Map(measuredSizes.current));
+      });
+    },
+    [vertical],
+  );
+
+  useEffect(
+    () => () => {
+      if (cancelPendingUpdate.current) cancelPendingUpdate.current();
+      cancelPendingUpdate.current = null;
+    },
+    [],
+  );
+
+  // The sizes of the items that left the data are not needed anymore
+  useEffect(() => {
+    const items = new Set(data);
+    measuredSizes.current.forEach((_size, item) => {
+      if (!items.has(item)) measuredSizes.current.delete(item);
+    });
+  }, [data]);
+
+  // One observer for all the items of the list
+  const observedItems = useRef(new Map<Element, T>());
+  const resizeObserver = useMemo(() => {
+    if (!isEnabled || !canObserveSizes()) return undefined;
+    return new ResizeObserver((entries) => {
+      entries.forEach((entry) => {
+        const item = observedItems.current.get(entry.target);
+        if (item !== undefined) recordSize(item, entry.target as HTMLElement);
+      });
+    });
+  }, [isEnabled, recordSize]);
+
+  useEffect(
+    () => () => {
+      if (resizeObserver) resizeObserver.disconnect();
+    },
+    [resizeObserver],
+  );
+
+  const getItemSize = useCallback(
+    (item: T) => {
+      const size = sizes.get(item);
+      return size !== undefined ? size : estimatedItemSize;
+    },
+    [sizes, estimatedItemSize],
+  );
+
+  const observeItem = useCallback(
+    (item: T, element: HTMLElement) => {
+      recordSize(item, element);
+      if (!resizeObserver) return () => undefined;
+
+      observedItems.current.set(element, item);
+      resizeObserver.observe(element);
+      return () => {
+        observedItems.current.delete(element);
+        resizeObserver.unobserve(element);
+      };
+    },
+    [recordSize, resizeObserver],
+  );
+
+  const measureItem = useCallback(
+    (item: T, element: HTMLElement) => {
+      if (!resizeObserver) recordSize(item, element);
+    },
+    [recordSize, resizeObserver],
+  );
+
+  return useMemo(
+    () => ({ getItemSize, observeItem, measureItem }),
+    [getItemSize, observeItem, measureItem],
+  );
+};
@@ -0,0 +1,57 @@
+import { useMemo, useRef } from 'preact/hooks';
+import type { JSX } from 'preact';
+
+/** How far the wheel has to go to scroll by one item, at a sensitivity of 1. About one notch of a mouse wheel. */
+const WHEEL_DELTA_PER_ITEM_PX = 100;
+/** Some browsers report wheel deltas in lines or pages rather than pixels */
+const LINE_HEIGHT_PX = 40;
+const PAGE_HEIGHT_PX = 800;
+
+const getDeltaInPx = (delta: number, deltaMode: number) => {
+  if (deltaMode === 1) return delta * LINE_HEIGHT_PX;
+  if (deltaMode === 2) return delta * PAGE_HEIGHT_PX;
+  return delta;
+};
+
+/**
+ * Turns the mouse wheel and trackpad deltas along the list into a number of items to scroll by.
+ * Small deltas, like those of trackpads, add up until they make a whole item.
+ */
+export const useWheelScroll = ({
+  vertical,
+  sensitivity = 1,
+  onWheelScroll,
+}: {
+  vertical: boolean;
+  sensitivity?: number;
+  onWheelScroll?: (numberOfItems: number) => void;
+}) => {
+  const accumulatedDelta = useRef(0);
+
+  // The handler is created once, so it needs to read the latest callback.
+  const currentOnWheelScroll = useRef(onWheelScroll);
+  currentOnWheelScroll.current = onWheelScroll;
+
+  const wheelHandlers = useMemo(
+    () => ({
+      onWheel: (event: JSX.TargetedWheelEvent<HTMLDivElement>) => {
+        const delta = getDeltaInPx(vertical ? event.deltaY : event.deltaX, event.deltaMode);
+        // Deltas across the list are left to the parents
+        if (delta === 0) return;
+        if (event.cancelable) event.preventDefault();
+
+        // Going back the other way starts over
+        if (Math.sign(delta) !== Math.sign(accumulatedDelta.current)) accumulatedDelta.current = 0;
+        accumulatedDelta.current += delta * sensitivity;
+
+        const numberOfItems = Math.trunc(accumulatedDelta.current / WHEEL_DELTA_PER_ITEM_PX);
+        if (numberOfItems === 0) return;
+        accumulatedDelta.current -= numberOfItems * WHEEL_DELTA_PER_ITEM_PX;
+        if (currentOnWheelScroll.current) currentOnWheelScroll.current(numberOfItems);
+      },
+    }),
+    [vertical, sensitivity],
+  );
+
+  return { wheelHandlers: onWheelScroll ? wheelHandlers : undefined };
+};
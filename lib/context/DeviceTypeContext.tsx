@@ -1,6 +1,7 @@
 import { createContext } from 'preact';
 import { useContext, useState, useEffect, useRef } from 'preact/hooks';
 import type { JSX, Ref } from 'preact';
+import { createPointerModeDetector, type PointerModeDetectorOptions } from '../utils/pointerModeDetector';
 
 /**
  * Device types supported by the library
@@ -29,6 +30,11 @@ export interface DeviceTypeContextValue {
 export interface SpatialNavigationDeviceTypeProviderProps {
   /** Device type - can be manually specified or auto-detected */
   deviceType?: DeviceType;
+  /**
+   * Switches between `remoteKeys` and `remotePointer` when the user moves the pointer of the remote control
+   * (e.g. LG Magic Remote) or presses its keys. Pass options to tune how much the pointer has to move.
+   */
+  pointerModeDetection?: boolean | PointerModeDetectorOptions;
   /** Children elements */
   children: JSX.Element | JSX.Element[];
 }
@@ -84,6 +90,7 @@ function detectDeviceType(): DeviceType {
  */
 export function SpatialNavigationDeviceTypeProvider({
   deviceType: providedDeviceType,
+  pointerModeDetection = false,
   children,
 }: SpatialNavigationDeviceTypeProviderProps) {
   const [deviceType, setDeviceType] = useState<DeviceType>(
@@ -112,6 +119,22 @@ export function SpatialNavigationDeviceTypeProvider({
     return () => window.removeEventListener('resize', handleResize);
   }, [providedDeviceType]);
 
+  const isPointerModeDetectionEnabled = pointerModeDetection !== false;
+  const pointerModeDetectorOptions: PointerModeDetectorOptions =
+    typeof pointerModeDetection === 'object' ? pointerModeDetection : {};
+  const { moveThresholdPx, keyQuietPeriodMs } = pointerModeDetectorOptions;
+  useEffect(() => {
+    if (!isPointerModeDetectionEnabled) return;
+
+    // Remote control actions change the device type too, so the detector reads it rather than tracking its own
+    const detector = createPointerModeDetector(
+      setDeviceType,
+      { moveThresholdPx, keyQuietPeriodMs },
+      () => deviceTypeRef.current === 'remotePointer',
+    );
+    return () => detector.dispose();
+  }, [isPointerModeDetectionEnabled, moveThresholdPx, keyQuietPeriodMs]);
+
   const contextValue: DeviceTypeContextValue = {
     deviceType,
     deviceTypeRef,
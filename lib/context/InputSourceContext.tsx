@@ -0,0 +1,28 @@
+import { createContext } from 'preact';
+import { useContext } from 'preact/hooks';
+import type { ComponentChildren } from 'preact';
+import type { InputSource } from '../utils/remoteControl';
+
+export const InputSourceContext = createContext<InputSource | null>(null);
+
+/**
+ * Props for SpatialNavigationInputSourceProvider
+ */
+export interface SpatialNavigationInputSourceProviderProps {
+  /** Where the roots below get their actions from. Create it once, not at every render. */
+  inputSource: InputSource;
+  children: ComponentChildren;
+}
+
+/**
+ * SpatialNavigationInputSourceProvider - Gives an input source to the roots below,
+ * instead of the one set with `configureRemoteControl`
+ */
+export function SpatialNavigationInputSourceProvider({
+  inputSource,
+  children,
+}: SpatialNavigationInputSourceProviderProps) {
+  return <InputSourceContext.Provider value={inputSource}>{children}</InputSourceContext.Provider>;
+}
+
+export const useInputSource = () => useContext(InputSourceContext);
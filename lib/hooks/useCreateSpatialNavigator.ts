@@ -1,17 +1,30 @@
 import { useMemo } from 'preact/hooks';
-import SpatialNavigator, { type OnDirectionHandledWithoutMovement } from '../spatial-navigation/SpatialNavigator';
+import SpatialNavigator, {
+  type OnBeforeMove,
+  type OnDirectionHandledWithoutMovement,
+} from '../spatial-navigation/SpatialNavigator';
+import type { KeyAction } from '../types';
 
 type UseCreateSpatialNavigatorParams = {
   onDirectionHandledWithoutMovementRef: { current: OnDirectionHandledWithoutMovement };
+  onBackRef: { current: () => void };
+  onBeforeMoveRef: { current: OnBeforeMove };
+  onKeyActionRef: { current: (action: KeyAction) => void };
 };
 
 export const useCreateSpatialNavigator = ({
   onDirectionHandledWithoutMovementRef,
+  onBackRef,
+  onBeforeMoveRef,
+  onKeyActionRef,
 }: UseCreateSpatialNavigatorParams): SpatialNavigator => {
   const spatialNavigator = useMemo(
     () =>
       new SpatialNavigator({
         onDirectionHandledWithoutMovementRef,
+        onBackRef,
+        onBeforeMoveRef,
+        onKeyActionRef,
       }),
     // We only want to create the navigator once
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -1,19 +1,30 @@
 import SpatialNavigator from '../spatial-navigation/SpatialNavigator';
 import { useEffect } from 'preact/hooks';
-import { remoteControlSubscriber, remoteControlUnsubscriber } from '../utils/remoteControl';
+import { getConfiguredInputSource, type InputSource } from '../utils/remoteControl';
+import { createInputPipeline } from '../utils/inputPipeline';
 import { useDeviceType } from '../context/DeviceTypeContext';
+import { useInputSource } from '../context/InputSourceContext';
 
+/**
+ * Listens to the input source of the root: the one given in its props, or by the closest
+ * SpatialNavigationInputSourceProvider, or else the one set with `configureRemoteControl`.
+ */
 export const useRemoteControl = ({
   spatialNavigator,
   isActive,
+  inputSource,
 }: {
   spatialNavigator: SpatialNavigator;
   isActive: boolean;
+  inputSource?: InputSource;
 }) => {
   const { setDeviceType } = useDeviceType();
-  
+  const inputSourceFromContext = useInputSource();
+  const providedInputSource = inputSource || inputSourceFromContext;
+
   useEffect(() => {
-    if (!remoteControlSubscriber) {
+    const source = providedInputSource || getConfiguredInputSource();
+    if (!source) {
       console.warn(
         '[Preact Spatial Navigation] You probably forgot to configure the remote control. Please call the configuration function.',
       );
@@ -25,21 +36,21 @@ export const useRemoteControl = ({
       return () => undefined;
     }
 
-    const listener = remoteControlSubscriber((direction) => {
-      setDeviceType('remoteKeys');
-      spatialNavigator.handleKeyDown(direction);
+    const inputPipeline = createInputPipeline(
+      (action, steps) => spatialNavigator.handleKeyDown(action, { steps }),
+      source.inputPipeline,
+    );
+
+    // Touch screens and gamepads don't turn a phone or a tablet into a remote control
+    const deviceType = source.deviceType === undefined ? 'remoteKeys' : source.deviceType;
+    const listener = source.subscriber((direction) => {
+      if (deviceType) setDeviceType(deviceType);
+      inputPipeline.push(direction);
     });
-    
-    return () => {
-      if (!remoteControlUnsubscriber) {
-        console.warn(
-          '[Preact Spatial Navigation] You did not provide a remote control unsubscriber. Are you sure you called configuration correctly?',
-        );
 
-        return;
-      }
-      remoteControlUnsubscriber(listener);
+    return () => {
+      inputPipeline.dispose();
+      source.unsubscriber(listener);
     };
-  }, [spatialNavigator, isActive, setDeviceType]);
+  }, [spatialNavigator, isActive, setDeviceType, providedInputSource]);
 };
-
@@ -33,6 +33,7 @@ export {
   SpatialNavigationDeviceTypeProvider, 
   useDeviceType 
 } from './context/DeviceTypeContext';
+export { SpatialNavigationInputSourceProvider } from './context/InputSourceContext';
 
 // Contexts and Hooks
 export { useSpatialNavigator, useSpatialNavigatorContext } from './context/SpatialNavigatorContext';
@@ -48,7 +49,7 @@ export { useSpatialNavigatorFocusableAccessibilityProps } from './hooks/useSpati
 export { useFocusable } from './hooks/useFocusable';
 
 // Utilities
-export { navigationEventBus } from './utils/eventBus';
+export { navigationEventBus, NavigationEventBus } from './utils/eventBus';
 export {
   generateSectionId,
   isElementFocused,
@@ -61,6 +62,11 @@ export {
   TV_REMOTE_KEYS,
   createLGRemoteControl,
 } from './utils/remoteControl';
+export { createRemoteControl, createEnterPressHandler, mergeKeyMaps } from './utils/createRemoteControl';
+export { REMOTE_CONTROL_KEY_MAPS } from './utils/remoteControlKeyMaps';
+export { createGamepadRemoteControl } from './utils/gamepadRemoteControl';
+export { createTouchRemoteControl } from './utils/touchRemoteControl';
+export { createPointerModeDetector } from './utils/pointerModeDetector';
 
 // Export the main namespace object
 import { configureRemoteControl as _configureRemoteControl } from './utils/remoteControl';
@@ -73,6 +79,15 @@ export type {
   Direction,
   Orientation,
   NodeOrientation,
+  EnterTo,
+  Restrict,
+  RemoteControlAction,
+  KeyAction,
+  PageKeyAction,
+  MediaKeyAction,
+  ColorKeyAction,
+  DigitKeyAction,
+  ChannelKeyAction,
   FocusableNodeState,
   NonFocusableNodeState,
   SpatialNavigationRootProps,
@@ -92,10 +107,30 @@ export type {
   // GridProps, ListProps, SectionConfig, GridConfig, ListConfig - REMOVED
 } from './types';
 
-export type { NavigationEvents } from './utils/eventBus';
+export type { NavigationEvents, NavigationEventDetail } from './utils/eventBus';
+export type {
+  BeforeMoveEvent,
+  OnBeforeMove,
+  OnEdgeReached,
+  OnKeyAction,
+  FocusPathSegment,
+  FocusAsyncOptions,
+} from './spatial-navigation/SpatialNavigator';
 export type { DeviceType, DeviceTypeContextValue } from './context/DeviceTypeContext';
+export type { PointerModeDetectorOptions, PointerModeDetector } from './utils/pointerModeDetector';
 export type { DefaultFocusProps } from './context/DefaultFocusContext';
-export type { RemoteControlConfiguration } from './utils/remoteControl';
+export type { RemoteControlConfiguration, InputSource } from './utils/remoteControl';
+export type { SpatialNavigationInputSourceProviderProps } from './context/InputSourceContext';
+export type {
+  LongPressOptions,
+  EnterPressHandler,
+  KeyboardListeners,
+  KeyMap,
+  RemoteControlOptions,
+} from './utils/createRemoteControl';
+export type { GamepadRemoteControlOptions, GamepadListeners } from './utils/gamepadRemoteControl';
+export type { TouchRemoteControlOptions, TouchListeners } from './utils/touchRemoteControl';
+export type { InputPipelineOptions } from './utils/inputPipeline';
 export type { VirtualizedListProps } from './components/virtualizedList/VirtualizedList';
 export type { ViewportPadding } from './components/virtualizedList/VirtualizedListWithSize';
 export type { 
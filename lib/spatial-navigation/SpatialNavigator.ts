@@ -1,28 +1,173 @@
-import type { Direction } from '@bam.tech/lrud';
+import type { Direction, Node, NodeConfig } from '@bam.tech/lrud';
 import { Lrud } from '@bam.tech/lrud';
+import uniqueId from 'lodash.uniqueid';
 import { isError } from './helpers/isError';
+import type {
+  EnterTo,
+  KeyAction,
+  RemoteControlAction,
+  Restrict,
+  Direction as MovementDirection,
+} from '../types';
+import {
+  NavigationEventBus,
+  navigationEventBus,
+  type NavigationEventDetail,
+  type NavigationEvents,
+} from '../utils/eventBus';
+import { isDirection } from '../utils/helpers';
 
 export type OnDirectionHandledWithoutMovement = (direction: Direction) => void;
 type OnDirectionHandledWithoutMovementRef = { current: OnDirectionHandledWithoutMovement };
 
+/** Return true to stop the propagation of the back action to the parent nodes. */
+export type OnBack = () => boolean | void;
+type OnBackRef = { current: () => void };
+
+export type BeforeMoveEvent = {
+  direction: MovementDirection;
+  /** Id of the currently focused node */
+  from: string;
+  /** Id of the node that is about to be focused, undefined if there is nothing to move to in this direction */
+  to: string | undefined;
+};
+/** Return false to cancel the move, or the focus key (or id) of another node to move the focus there instead. */
+export type OnBeforeMove = (move: BeforeMoveEvent) => boolean | string | void;
+type OnBeforeMoveRef = { current: OnBeforeMove };
+
+/** Return true to stop the propagation to the parent nodes and the root. */
+export type OnEdgeReached = (direction: MovementDirection) => boolean | void;
+
+/** Return true to stop the propagation of the key action to the parent nodes and the root. */
+export type OnKeyAction = (action: KeyAction) => boolean | void;
+type OnKeyActionRef = { current: (action: KeyAction) => void };
+
+/**
+ * Options that LRUD does not know about, handled by the SpatialNavigator itself.
+ */
+export type SpatialNavigatorNodeOptions = {
+  /** Which child gets the focus when the focus enters this node from outside. */
+  enterTo?: EnterTo;
+  /** Whether directional moves are allowed to leave this node once the focus is inside. */
+  restrict?: Restrict;
+  /** Called when the back action bubbles through this node. */
+  onBack?: OnBack;
+  /** Called before a directional move leaves the focused node, if this node is the focused node or one of its parents. */
+  onBeforeMove?: OnBeforeMove;
+  /** Called when the focus could not move in a direction matching the orientation of this node. */
+  onEdgeReached?: OnEdgeReached;
+  /** Called when a media, color, digit, channel or page action bubbles through this node. */
+  onKeyAction?: OnKeyAction;
+  /** Gives the DOM element of the node, sent along with the navigation events. */
+  getElement?: () => HTMLElement | null;
+  /** A readable name to address the node with `focus`, `hasNode` and `getFocusedKey`. */
+  focusKey?: string;
+};
+
+export type SpatialNavigatorNodeConfig = NodeConfig & SpatialNavigatorNodeOptions;
+
+/** What can change on a node after its registration */
+export type SpatialNavigatorNodeUpdate = Pick<
+  NodeConfig,
+  'orientation' | 'isFocusable' | 'isIndexAlign' | 'isWrapping' | 'indexRange'
+> &
+  Pick<SpatialNavigatorNodeOptions, 'enterTo' | 'restrict' | 'focusKey'>;
+
+/** A focus key, or an item of a virtualized list or grid (its index, or its focus key). */
+export type FocusPathSegment = string | number;
+
+/**
+ * Scrolls a virtualized list or grid to the item a focus path segment refers to, so it gets rendered.
+ * Returns the ids of the nodes leading to this item (they might not be registered yet),
+ * or undefined if the segment does not refer to any of its items.
+ */
+export type FocusPathItemResolver = (segment: FocusPathSegment) => string[] | undefined;
+
+const getNodeDepth = (node: Node) => {
+  let depth = 0;
+  let parent = node.parent;
+  while (parent) {
+    depth++;
+    parent = parent.parent;
+  }
+  return depth;
+};
+
+/**
+ * How many previously focused nodes we remember to restore the focus when the focused node is unregistered.
+ */
+const MAX_FOCUS_HISTORY_LENGTH = 50;
+
+/**
+ * How long `focusAsync` waits for the node to be focused before giving up, by default.
+ */
+const DEFAULT_FOCUS_TIMEOUT_MS = 3000;
+
+export type FocusAsyncOptions = {
+  /** Rejects if the node is not focused after this delay. Defaults to 3000ms. */
+  timeoutMs?: number;
+};
+
 type SpatialNavigatorParams = {
   onDirectionHandledWithoutMovementRef: OnDirectionHandledWithoutMovementRef;
+  onBackRef?: OnBackRef;
+  onBeforeMoveRef?: OnBeforeMoveRef;
+  onKeyActionRef?: OnKeyActionRef;
 };
 
 export default class SpatialNavigator {
   private lrud: Lrud;
+  /** Identifies this navigator in the navigation events, since each root has its own navigator. */
+  public readonly id: string = uniqueId('navigator_');
+  /** Navigation events (focus, blur, willmove, navigatefailed, enterdown, enterup) of this navigator only. */
+  public readonly events = new NavigationEventBus();
   private onDirectionHandledWithoutMovementRef: OnDirectionHandledWithoutMovementRef;
+  private onBackRef: OnBackRef;
+  private onBeforeMoveRef: OnBeforeMoveRef;
+  private onKeyActionRef: OnKeyActionRef;
 
   constructor({
     onDirectionHandledWithoutMovementRef = { current: () => undefined },
+    onBackRef = { current: () => undefined },
+    onBeforeMoveRef = { current: () => undefined },
+    onKeyActionRef = { current: () => undefined },
   }: SpatialNavigatorParams) {
     this.lrud = new Lrud();
     this.onDirectionHandledWithoutMovementRef = onDirectionHandledWithoutMovementRef;
+    this.onBackRef = onBackRef;
+    this.onBeforeMoveRef = onBeforeMoveRef;
+    this.onKeyActionRef = onKeyActionRef;
   }
 
-  private registerMap: { [key: string]: Array<Parameters<Lrud['registerNode']>> } = {};
+  private registerMap: { [key: string]: Array<[string, SpatialNavigatorNodeConfig?]> } = {};
+
+  /**
+   * LRUD drops the config keys it does not know about, so we keep our own options on the side.
+   */
+  private nodeOptions: { [id: string]: SpatialNavigatorNodeOptions } = {};
+
+  /** Ids of the registered nodes, by focus key */
+  private focusKeys: { [focusKey: string]: string } = {};
+
+  private registerFocusKey(id: string, focusKey: string | undefined) {
+    if (focusKey === undefined) return;
+
+    const registeredId = this.focusKeys[focusKey];
+    if (registeredId !== undefined && registeredId !== id && this.lrud.getNode(registeredId)) {
+      console.warn(
+        `[Preact Spatial Navigation] The focus key "${focusKey}" is already used by another node, it now refers to the last registered one.`,
+      );
+    }
+    this.focusKeys[focusKey] = id;
+  }
 
-  public registerNode(...params: Parameters<Lrud['registerNode']>) {
+  private unregisterFocusKey(id: string, focusKey: string | undefined) {
+    if (focusKey !== undefined && this.focusKeys[focusKey] === id) {
+      delete this.focusKeys[focusKey];
+    }
+  }
+
+  public registerNode(...params: [string, SpatialNavigatorNodeConfig?]) {
     try {
       const parent = params[1] && params[1].parent;
       const id = params[0];
@@ -31,9 +176,19 @@ export default class SpatialNavigator {
       // If a parent is given, we need the node to exist. Otherwise, we'll pass and queue the node for later registration.
       if (parent === undefined || this.lrud.getNode(parent)) {
         this.lrud.registerNode(...params);
+        // LRUD resets its event emitter when the root is unregistered, so we subscribe again on each root registration.
+        if (parent === undefined) {
+          this.lrud.on('focus', this.pushToFocusHistory);
+          this.lrud.on('focus', this.emitFocus);
+          this.lrud.on('blur', this.emitBlur);
+          this.lrud.on('focus', this.handleFocusRequest);
+        }
+        this.nodeOptions[id] = params[1] || {};
+        this.registerFocusKey(id, this.nodeOptions[id].focusKey);
 
         // After we successfully register a node, we need to check whether it needs to grab the focus or not.
         this.handleQueuedFocus();
+        this.resumeFocusPath();
 
         // OK, we successfully registered an element.
         // Now, we check if some other elements were depending on us to be registered.
@@ -58,13 +213,170 @@ export default class SpatialNavigator {
   }
 
   public unregisterNode(...params: Parameters<Lrud['unregisterNode']>) {
-    this.lrud.unregisterNode(...params);
+    const [nodeOrId, unregisterOptions] = params;
+    const node = typeof nodeOrId === 'string' ? this.lrud.getNode(nodeOrId) : nodeOrId;
+    const id = typeof nodeOrId === 'string' ? nodeOrId : nodeOrId.id;
+    const options = this.nodeOptions[id];
+    if (options) this.unregisterFocusKey(id, options.focusKey);
+    delete this.nodeOptions[id];
+
+    const currentFocusNode = this.lrud.getCurrentFocusNode();
+    const isFocusLost =
+      !!node &&
+      !!node.parent &&
+      !!currentFocusNode &&
+      this.lrud.isSameOrParentForChild(node, currentFocusNode);
+
+    if (!node || !isFocusLost) {
+      if (node && !node.parent) {
+        this.focusHistory = [];
+        this.focusedNode = null;
+      }
+      this.lrud.unregisterNode(...params);
+      return;
+    }
+
+    // We handle the refocus ourselves instead of letting LRUD pick the first focusable node.
+    const parent = node.parent;
+    const index = node.index;
+    this.lrud.unregisterNode(node, { forceRefocus: false });
+    if (unregisterOptions && unregisterOptions.forceRefocus === false) return;
+
+    if (this.restorePreviousFocus()) return;
+    this.focusNearestSibling(parent, index !== undefined ? index : 0);
   }
 
-  public async handleKeyDown(direction: Direction | null) {
+  /**
+   * LRUD does not allow updating the nodes, but it reads their configuration on each movement,
+   * so we can patch them in place instead of re-registering them (and their children) and losing the focus.
+   * If the focused node becomes non focusable, the focus moves to its nearest sibling.
+   */
+  public updateNode(id: string, update: SpatialNavigatorNodeUpdate) {
+    const node = this.lrud.getNode(id);
+    if (!node) {
+      // The node is waiting for its parent to be registered: we update its queued configuration.
+      Object.keys(this.registerMap).forEach((parentId) => {
+        this.registerMap[parentId].forEach((params) => {
+          if (params[0] === id) params[1] = { ...params[1], ...update };
+        });
+      });
+      return;
+    }
+
+    const previousOptions = this.nodeOptions[id];
+    if (previousOptions && previousOptions.focusKey !== update.focusKey) {
+      this.unregisterFocusKey(id, previousOptions.focusKey);
+      this.registerFocusKey(id, update.focusKey);
+    }
+    this.nodeOptions[id] = { ...previousOptions, ...update };
+    node.orientation = update.orientation;
+    node.isIndexAlign = update.isIndexAlign;
+    node.isWrapping = update.isWrapping;
+    node.indexRange = update.indexRange;
+
+    const isFocusable = update.isFocusable === true;
+    if (!isFocusable && node.isFocusable && this.lrud.getCurrentFocusNode() === node) {
+      // LRUD would move the focus to the first focusable node of the parent, we move it next to the node instead.
+      node.isFocusable = false;
+      this.focusNearestSibling(node.parent, node.index !== undefined ? node.index : 0);
+      node.isFocusable = true;
+      this.isFocusLostToDisabledNode = this.lrud.getCurrentFocusNode() === node;
+    }
+    this.lrud.setNodeFocusable(node, isFocusable);
+
+    // No other node could take the focus: it comes back as soon as one can.
+    if (isFocusable && this.isFocusLostToDisabledNode && !this.lrud.getCurrentFocusNode()) {
+      this.isFocusLostToDisabledNode = false;
+      this.lrud.assignFocus(node);
+    }
+  }
+
+  /** Whether the focus was lost because the focused node got disabled and no other node could take it */
+  private isFocusLostToDisabledNode = false;
+
+  /**
+   * Ids of the previously focused nodes, the most recent one being last.
+   * It may contain nodes that are not registered anymore: they are skipped when restoring the focus.
+   */
+  private focusHistory: string[] = [];
+
+  private pushToFocusHistory = (node: unknown) => {
+    const { id } = node as Node;
+    if (this.focusHistory[this.focusHistory.length - 1] === id) return;
+
+    this.focusHistory.push(id);
+    if (this.focusHistory.length > MAX_FOCUS_HISTORY_LENGTH) {
+      this.focusHistory.shift();
+    }
+  };
+
+  /**
+   * Moves the focus back to the most recently focused node that is still registered.
+   *
+   * @returns whether the focus has been moved
+   */
+  public restorePreviousFocus = (): boolean => {
+    const currentFocusNode = this.lrud.getCurrentFocusNode();
+
+    while (this.focusHistory.length > 0) {
+      const node = this.lrud.getNode(this.focusHistory[this.focusHistory.length - 1]);
+      if (node && node !== currentFocusNode && node.isFocusable) {
+        this.lrud.assignFocus(node);
+        return true;
+      }
+      this.focusHistory.pop();
+    }
+
+    return false;
+  };
+
+  /**
+   * Focuses the sibling that took the place of a removed node, or the previous ones.
+   * If the parent has no focusable child left, we try with the parent's siblings, and so on.
+   */
+  private focusNearestSibling(parent: Node | undefined, removedIndex: number) {
+    let node = parent;
+    let index = removedIndex;
+
+    while (node) {
+      const children = node.children || [];
+      const candidates = children.slice(index).concat(children.slice(0, index).reverse());
+
+      for (const candidate of candidates) {
+        if (!this.lrud.isNodeFocusableCandidate(candidate)) continue;
+
+        const nodeToFocus = this.lrud.digDown(candidate);
+        if (nodeToFocus) {
+          this.lrud.assignFocus(nodeToFocus);
+          return;
+        }
+      }
+
+      index = node.index !== undefined ? node.index : 0;
+      node = node.parent;
+    }
+  }
+
+  /**
+   * @param options.steps How many times a directional move is repeated, as long as the focus stays in the same
+   * container (used to accelerate in lists while a key is held).
+   */
+  public async handleKeyDown(
+    direction: RemoteControlAction | null,
+    { steps = 1 }: { steps?: number } = {},
+  ) {
     if (!direction) {
       return;
     }
+    // The user took over, we don't want the focus to jump somewhere else later on.
+    // Pressing and releasing Enter doesn't count: a focus requested by `onSelect` has to survive the release.
+    const isEnterPressOrRelease = direction === 'enter_down' || direction === 'enter_up';
+    if (!isEnterPressOrRelease) this.pendingFocusPath = null;
+    if (!isEnterPressOrRelease && this.lrud.getCurrentFocusNode()) {
+      this.cancelFocusRequest('cancelled by a key press');
+      this.focusQueue = null;
+      this.virtualNodeFocusQueue = null;
+    }
     if (!this.hasRootNode) {
       console.warn('❌ SpatialNavigator: No root node');
       return;
@@ -75,34 +387,379 @@ export default class SpatialNavigator {
     }
 
     // Handle Enter/Select separately
+    if (direction === 'enter_down') {
+      this.isEnterPressed = true;
+      const currentNode = this.lrud.getCurrentFocusNode();
+      if (currentNode) this.emitNavigationEvent('enterdown', currentNode);
+      return;
+    }
+
+    if (direction === 'enter_up') {
+      if (!this.isEnterPressed) return;
+      this.isEnterPressed = false;
+      const currentNode = this.lrud.getCurrentFocusNode();
+      if (currentNode) this.emitNavigationEvent('enterup', currentNode);
+      return;
+    }
+
+    // Remote controls that don't send `enter_down` and `enter_up` only tell us about complete presses,
+    // so enterdown and enterup are emitted together.
     if (direction === 'enter') {
       const currentNode = this.lrud.getCurrentFocusNode();
+      const isCompletePress = !this.isEnterPressed;
+      if (currentNode && isCompletePress) this.emitNavigationEvent('enterdown', currentNode);
       if (currentNode && currentNode.onSelect) {
         currentNode.onSelect(currentNode);
       }
+      if (currentNode && isCompletePress) this.emitNavigationEvent('enterup', currentNode);
       return;
     }
 
     // Handle long enter
     if (direction === 'long_enter') {
       const currentNode = this.lrud.getCurrentFocusNode();
+      const isCompletePress = !this.isEnterPressed;
+      if (currentNode && isCompletePress) this.emitNavigationEvent('enterdown', currentNode);
       if (currentNode && currentNode.onLongSelect) {
         currentNode.onLongSelect(currentNode);
       }
+      if (currentNode && isCompletePress) this.emitNavigationEvent('enterup', currentNode);
+      return;
+    }
+
+    if (direction === 'back') {
+      this.handleBack();
+      return;
+    }
+
+    if (!isDirection(direction)) {
+      this.handleKeyAction(direction);
       return;
     }
 
     // Handle directional navigation
-    if (direction) {
-      const nodeBeforeMovement = this.lrud.getCurrentFocusNode();
-      
-      this.lrud.handleKeyEvent({ direction }, { forceFocus: true });
-      const nodeAfterMovement = this.lrud.getCurrentFocusNode();
+    // Extra steps only go through the container that handled the first one: we never skip into another section.
+    const container = this.getMovementContainer(direction);
+    if (!this.handleDirection(direction)) return;
+    for (let step = 1; step < steps; step++) {
+      if (!container || this.getMovementContainer(direction) !== container) return;
+      if (!this.handleDirection(direction)) return;
+    }
+  }
+
+  /** The node whose children the focus moves between when pressing this direction */
+  private getMovementContainer(direction: MovementDirection): Node | undefined {
+    const currentNode = this.lrud.getCurrentFocusNode();
+    return currentNode ? this.lrud.climbUp(currentNode, direction) : undefined;
+  }
+
+  /**
+   * Moves the focus in a direction, going through restrictions, `enterTo` and `onBeforeMove`.
+   *
+   * @returns whether the focus has moved
+   */
+  private handleDirection(direction: MovementDirection): boolean {
+    const nodeBeforeMovement = this.lrud.getCurrentFocusNode();
+    const nextNode = this.getNextFocusNode(direction);
+    if (nodeBeforeMovement) this.emitNavigationEvent('willmove', nodeBeforeMovement, direction);
+
+    if (nodeBeforeMovement && nextNode && this.isLeavingRestrictedNode(nodeBeforeMovement, nextNode)) {
+      this.handleDirectionWithoutMovement(nodeBeforeMovement, direction);
+      return false;
+    }
+
+    const enterToNode =
+      nodeBeforeMovement && nextNode ? this.getEnterToNode(nodeBeforeMovement, nextNode) : undefined;
+
+    let redirectedNode = enterToNode;
+    if (nodeBeforeMovement) {
+      const targetNode = enterToNode || nextNode;
+      const beforeMoveResult = this.handleBeforeMove({
+        direction,
+        from: nodeBeforeMovement.id,
+        to: targetNode ? targetNode.id : undefined,
+      });
+      // The move was vetoed on purpose, so we don't consider that a border was reached
+      if (beforeMoveResult === false) return false;
+      if (typeof beforeMoveResult === 'string') {
+        redirectedNode = this.lrud.getNode(this.getNodeId(beforeMoveResult));
+        if (!redirectedNode) {
+          console.warn(`[Preact Spatial Navigation] Cannot redirect the move to unregistered node ${beforeMoveResult}`);
+          return false;
+        }
+      }
+    }
+
+    this.currentMovementDirection = direction;
+    try {
+      if (redirectedNode && nodeBeforeMovement) {
+        this.moveFocus(nodeBeforeMovement, redirectedNode, direction);
+      } else {
+        this.lrud.handleKeyEvent({ direction }, { forceFocus: true });
+      }
+    } finally {
+      this.currentMovementDirection = undefined;
+    }
+    const nodeAfterMovement = this.lrud.getCurrentFocusNode();
+
+    if (nodeBeforeMovement === nodeAfterMovement) {
+      this.handleDirectionWithoutMovement(nodeBeforeMovement, direction);
+      return false;
+    }
+    return true;
+  }
+
+  /** Between `enter_down` and `enter_up`, for the remote controls that send them */
+  private isEnterPressed = false;
+
+  /**
+   * Focuses the node a move was redirected to, and tells about the move like LRUD does after a directional key:
+   * the `move` listeners, then `onMove` of the container where the move happened, `onLeave` and `onEnter`.
+   */
+  private moveFocus(from: Node, to: Node, direction: MovementDirection) {
+    this.lrud.assignFocus(to);
+    const enter = this.lrud.getCurrentFocusNode();
+    if (!enter) return;
+
+    let container = enter.parent;
+    while (container && !this.lrud.isSameOrParentForChild(container, from)) {
+      container = container.parent;
+    }
+    const offset: 1 | -1 = direction === 'left' || direction === 'up' ? -1 : 1;
+    const move = { leave: from, enter, direction, offset };
+    this.lrud.emitter.emit('move', move);
+    if (container && container.onMove) container.onMove({ node: container, ...move });
+    if (from.onLeave) from.onLeave(from);
+    if (enter.onEnter) enter.onEnter(enter);
+  }
+
+  /**
+   * Direction of the movement being handled, so that the focus and blur events can tell
+   * whether they were caused by a directional key.
+   */
+  private currentMovementDirection: NavigationEventDetail['direction'] = undefined;
+
+  private emitNavigationEvent(
+    event: keyof NavigationEvents,
+    node: Node,
+    direction?: NavigationEventDetail['direction'],
+    options: SpatialNavigatorNodeOptions | undefined = this.nodeOptions[node.id],
+  ) {
+    const detail: NavigationEventDetail = {
+      nodeId: node.id,
+      parentId: node.parent ? node.parent.id : undefined,
+      direction,
+      element: options && options.getElement ? options.getElement() : undefined,
+      navigatorId: this.id,
+    };
+    this.events.emit(event, detail);
+    navigationEventBus.emit(event, detail);
+  }
+
+  /**
+   * The node that has the focus, with its options: they are deleted before the node is unregistered,
+   * but its blur event still needs its element.
+   */
+  private focusedNode: { node: Node; options: SpatialNavigatorNodeOptions | undefined } | null = null;
+
+  private emitFocus = (node: unknown) => {
+    this.focusedNode = { node: node as Node, options: this.nodeOptions[(node as Node).id] };
+    this.isFocusLostToDisabledNode = false;
+    this.emitNavigationEvent('focus', node as Node, this.currentMovementDirection);
+  };
+
+  /**
+   * LRUD also emits `blur` for every unregistered node, focused or not.
+   * We only emit it for the focused node, when it loses the focus or when it (or one of its parents) is unregistered.
+   */
+  private emitBlur = (node: unknown) => {
+    const focusedNode = this.focusedNode;
+    if (!focusedNode || !this.lrud.isSameOrParentForChild(node as Node, focusedNode.node)) return;
+
+    this.focusedNode = null;
+    this.emitNavigationEvent(
+      'blur',
+      focusedNode.node,
+      this.currentMovementDirection,
+      focusedNode.options,
+    );
+  };
+
+  /**
+   * Calls `onEdgeReached` from the deepest node that could not move in this direction up to the root,
+   * until one of them handles it. If nobody does, the root level `onDirectionHandledWithoutMovement` is called.
+   *
+   * A node can only reach an edge in a direction matching its orientation, except grids that go both ways.
+   */
+  private handleDirectionWithoutMovement(node: Node | undefined, direction: MovementDirection) {
+    if (node) this.emitNavigationEvent('navigatefailed', node, direction);
+
+    const orientation = direction === 'left' || direction === 'right' ? 'horizontal' : 'vertical';
+    let currentNode = node;
+    while (currentNode) {
+      const options = this.nodeOptions[currentNode.id];
+      const isMatchingOrientation =
+        currentNode.isIndexAlign === true || currentNode.orientation === orientation;
+      if (
+        isMatchingOrientation &&
+        options &&
+        options.onEdgeReached &&
+        options.onEdgeReached(direction) === true
+      ) {
+        return;
+      }
+      currentNode = currentNode.parent;
+    }
 
-      if (nodeBeforeMovement === nodeAfterMovement) {
-        this.onDirectionHandledWithoutMovementRef.current(direction);
+    this.onDirectionHandledWithoutMovementRef.current(direction);
+  }
+
+  /**
+   * Asks the focused node, then its parents, then the root, whether the move can happen.
+   * The first handler that cancels or redirects the move wins.
+   */
+  private handleBeforeMove(move: BeforeMoveEvent): false | string | undefined {
+    let node = this.lrud.getNode(move.from);
+    while (node) {
+      const options = this.nodeOptions[node.id];
+      if (options && options.onBeforeMove) {
+        const result = options.onBeforeMove(move);
+        if (result === false || typeof result === 'string') return result;
       }
+      node = node.parent;
     }
+
+    const result = this.onBeforeMoveRef.current(move);
+    if (result === false || typeof result === 'string') return result;
+    return undefined;
+  }
+
+  /**
+   * The back action bubbles from the focused node up to the root node, until a node handles it.
+   * If nobody does, the root level `onBack` is called.
+   */
+  private handleBack() {
+    let node = this.lrud.getCurrentFocusNode();
+    while (node) {
+      const options = this.nodeOptions[node.id];
+      if (options && options.onBack && options.onBack() === true) return;
+      node = node.parent;
+    }
+
+    this.onBackRef.current();
+  }
+
+  /**
+   * Media, color, digit, channel and page actions bubble like the back action,
+   * ending with the root level `onKeyAction`.
+   */
+  private handleKeyAction(action: KeyAction) {
+    let node = this.lrud.getCurrentFocusNode();
+    while (node) {
+      const options = this.nodeOptions[node.id];
+      if (options && options.onKeyAction && options.onKeyAction(action) === true) return;
+      node = node.parent;
+    }
+
+    this.onKeyActionRef.current(action);
+  }
+
+  /**
+   * Computes the node LRUD would focus if we pressed the given direction, without moving the focus.
+   * This mirrors the climb up / dig down done in `Lrud.handleKeyEvent`.
+   */
+  private getNextFocusNode(direction: Direction): Node | undefined {
+    const currentNode = this.lrud.getCurrentFocusNode();
+    if (!currentNode) return undefined;
+
+    const topNode = this.lrud.climbUp(currentNode, direction);
+    if (!topNode) return undefined;
+
+    // digDown relies on the index align mode, which LRUD only sets while handling a key event.
+    const previousIndexAlignMode = this.lrud.isIndexAlignMode;
+    this.lrud.isIndexAlignMode = topNode.isIndexAlign === true;
+    const nextChild = this.lrud.getNextFocusableChildInDirection(topNode, direction);
+    const nextNode = this.lrud.digDown(nextChild || topNode, direction);
+    this.lrud.isIndexAlignMode = previousIndexAlignMode;
+
+    return nextNode;
+  }
+
+  /**
+   * A movement is forbidden if it would take the focus out of a `self-only` node containing the current focus.
+   *
+   * `self-first` needs nothing from us: LRUD already climbs up the tree from the focused node,
+   * so a candidate inside the node is always preferred to one outside of it.
+   */
+  private isLeavingRestrictedNode(currentNode: Node, nextNode: Node): boolean {
+    let node: Node | undefined = currentNode.parent;
+    while (node) {
+      const options = this.nodeOptions[node.id];
+      if (
+        options &&
+        options.restrict === 'self-only' &&
+        !this.lrud.isSameOrParentForChild(node, nextNode)
+      ) {
+        return true;
+      }
+      node = node.parent;
+    }
+    return false;
+  }
+
+  /**
+   * If moving from currentNode to nextNode makes the focus enter a node that has an `enterTo` option,
+   * returns the node that should be focused instead of the one LRUD would pick.
+   *
+   * When several nested nodes are entered at once, the outermost one wins.
+   */
+  private getEnterToNode(currentNode: Node, nextNode: Node): Node | undefined {
+    const enteredNodes: Node[] = [];
+    let node: Node | undefined = nextNode.parent;
+    while (node && !this.lrud.isSameOrParentForChild(node, currentNode)) {
+      enteredNodes.unshift(node);
+      node = node.parent;
+    }
+
+    for (const enteredNode of enteredNodes) {
+      const options = this.nodeOptions[enteredNode.id];
+      if (!options || !options.enterTo || options.enterTo === 'default') continue;
+
+      const target =
+        options.enterTo === 'first'
+          ? this.getFirstFocusableLeaf(enteredNode)
+          : this.getLastFocusedLeaf(enteredNode);
+      if (target && target !== nextNode) return target;
+      return undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * LRUD keeps track of the last focused path through the `activeChild` of each node,
+   * until the focused child is unregistered.
+   */
+  private getLastFocusedLeaf(node: Node): Node | undefined {
+    let currentNode: Node | undefined = node;
+    while (currentNode) {
+      if (currentNode.isFocusable && !this.lrud.doesNodeHaveFocusableChildren(currentNode)) {
+        return currentNode;
+      }
+      currentNode = currentNode.activeChild;
+    }
+    return undefined;
+  }
+
+  private getFirstFocusableLeaf(node: Node): Node | undefined {
+    let currentNode: Node | undefined = node;
+    while (currentNode) {
+      if (currentNode.isFocusable && !this.lrud.doesNodeHaveFocusableChildren(currentNode)) {
+        return currentNode;
+      }
+      currentNode = this.lrud.getNodeFirstFocusableChild(currentNode);
+    }
+    return undefined;
   }
 
   public hasOneNodeFocused() {
@@ -111,7 +768,7 @@ export default class SpatialNavigator {
 
   /**
    * Sometimes we need to focus an element, but it is not registered yet.
-   * That's where we put this waiting element.
+   * That's where we put this waiting element, either a node id or a focus key.
    */
   private focusQueue: string | null = null;
 
@@ -173,9 +830,10 @@ export default class SpatialNavigator {
    */
   private handleQueuedFocus = () => {
     // Handle focus queue
-    if (this.focusQueue && this.lrud.getNode(this.focusQueue)) {
+    const queuedId = this.focusQueue && this.getNodeId(this.focusQueue);
+    if (queuedId && this.lrud.getNode(queuedId)) {
       try {
-        this.lrud.assignFocus(this.focusQueue);
+        this.lrud.assignFocus(queuedId);
         this.focusQueue = null;
       } catch (e) {
         // pass
@@ -200,6 +858,194 @@ export default class SpatialNavigator {
     return this.lrud.assignFocus(id);
   };
 
+  /** The last `focusAsync` call, until its node gets focused */
+  private focusRequest: {
+    id: string;
+    resolve: () => void;
+    reject: (error: Error) => void;
+    timeoutId: ReturnType<typeof setTimeout>;
+  } | null = null;
+
+  /**
+   * Focuses a node, waiting for it to be registered (and to have something focusable) if needed.
+   *
+   * Resolves when the node, or one of its children, actually receives the focus.
+   * Rejects on timeout, when a newer request supersedes it, or when the user presses a key in the meantime:
+   * a stale request never steals the focus later on.
+   */
+  public focusAsync = (id: string, options: FocusAsyncOptions = {}): Promise<void> => {
+    const { timeoutMs = DEFAULT_FOCUS_TIMEOUT_MS } = options;
+    this.cancelFocusRequest('superseded by a newer one');
+
+    return new Promise<void>((resolve, reject) => {
+      const timeoutId = setTimeout(
+        () => this.cancelFocusRequest(`not fulfilled after ${timeoutMs}ms`),
+        timeoutMs,
+      );
+      this.focusRequest = { id, resolve, reject, timeoutId };
+
+      if (this.lrud.getNode(id)) {
+        this.grabFocusDeferred(id);
+      } else {
+        this.focusQueue = id;
+      }
+    });
+  };
+
+  private handleFocusRequest = (node: unknown) => {
+    const focusRequest = this.focusRequest;
+    if (!focusRequest) return;
+
+    const requestedNode = this.lrud.getNode(focusRequest.id);
+    if (!requestedNode || !this.lrud.isSameOrParentForChild(requestedNode, node as Node)) return;
+
+    clearTimeout(focusRequest.timeoutId);
+    this.focusRequest = null;
+    focusRequest.resolve();
+  };
+
+  private cancelFocusRequest(reason: string) {
+    const focusRequest = this.focusRequest;
+    if (!focusRequest) return;
+
+    clearTimeout(focusRequest.timeoutId);
+    this.focusRequest = null;
+    if (this.focusQueue === focusRequest.id) this.focusQueue = null;
+    if (this.virtualNodeFocusQueue === focusRequest.id) this.virtualNodeFocusQueue = null;
+    focusRequest.reject(
+      new Error(`[Preact Spatial Navigation] The focus request for "${focusRequest.id}" was ${reason}.`),
+    );
+  }
+
+  /**
+   * Focuses the node registered with this focus key.
+   * If it is not registered yet, or has nothing focusable yet, it is focused as soon as it can be.
+   */
+  public focus = (focusKey: string) => {
+    const id = this.focusKeys[focusKey];
+    if (id !== undefined && this.lrud.getNode(id)) {
+      try {
+        this.lrud.assignFocus(id);
+        return;
+      } catch (error) {
+        if (!isError(error) || error.message !== 'trying to assign focus to a non focusable node') {
+          throw error;
+        }
+      }
+    }
+    this.focusQueue = focusKey;
+  };
+
+  public hasNode = (focusKey: string): boolean => {
+    const id = this.focusKeys[focusKey];
+    return id !== undefined && !!this.lrud.getNode(id);
+  };
+
+  public getFocusedKey = (): string | undefined => {
+    const currentFocusNode = this.lrud.getCurrentFocusNode();
+    if (!currentFocusNode) return undefined;
+
+    const options = this.nodeOptions[currentFocusNode.id];
+    return options ? options.focusKey : undefined;
+  };
+
+  /** Resolvers of the virtualized lists and grids, by id of their node */
+  private focusPathItemResolvers: { [id: string]: FocusPathItemResolver } = {};
+
+  public registerFocusPathItemResolver(id: string, resolver: FocusPathItemResolver) {
+    this.focusPathItemResolvers[id] = resolver;
+    this.resumeFocusPath();
+  }
+
+  public unregisterFocusPathItemResolver(id: string) {
+    delete this.focusPathItemResolvers[id];
+  }
+
+  /**
+   * The focus path being resolved.
+   * `nodeIdsToWaitFor` are the nodes given by a resolver for the previous segment, that must be registered before we go on.
+   */
+  private pendingFocusPath: {
+    segments: FocusPathSegment[];
+    nodeIdsToWaitFor: string[];
+    containerId: string | undefined;
+  } | null = null;
+
+  /**
+   * Focuses a node through a path of focus keys, and of items of virtualized lists and grids, like
+   * `['home', 'rail:trending', 42]`. Each segment is looked for inside the node of the previous one.
+   *
+   * Segments are resolved in turn as the nodes get registered: virtualized lists and grids scroll to the needed item
+   * so the next level gets rendered. The path is dropped if the user presses a key in the meantime.
+   */
+  public focusPath = (path: FocusPathSegment[]) => {
+    this.pendingFocusPath = { segments: [...path], nodeIdsToWaitFor: [], containerId: undefined };
+    this.resumeFocusPath();
+  };
+
+  private resumeFocusPath() {
+    const pendingFocusPath = this.pendingFocusPath;
+    if (!pendingFocusPath) return;
+
+    for (;;) {
+      while (pendingFocusPath.nodeIdsToWaitFor.length > 0) {
+        const id = pendingFocusPath.nodeIdsToWaitFor[0];
+        if (!this.lrud.getNode(id)) return;
+        pendingFocusPath.containerId = id;
+        pendingFocusPath.nodeIdsToWaitFor.shift();
+      }
+
+      if (pendingFocusPath.segments.length === 0) break;
+
+      const nodeIds = this.resolveFocusPathSegment(
+        pendingFocusPath.segments[0],
+        pendingFocusPath.containerId,
+      );
+      if (!nodeIds) return;
+      pendingFocusPath.segments.shift();
+      pendingFocusPath.nodeIdsToWaitFor = nodeIds;
+    }
+
+    this.pendingFocusPath = null;
+    if (pendingFocusPath.containerId !== undefined) {
+      this.grabFocusDeferred(pendingFocusPath.containerId);
+    }
+  }
+
+  private resolveFocusPathSegment(
+    segment: FocusPathSegment,
+    containerId: string | undefined,
+  ): string[] | undefined {
+    const container = containerId !== undefined ? this.lrud.getNode(containerId) : undefined;
+    const isInContainer = (node: Node) =>
+      !container || this.lrud.isSameOrParentForChild(container, node);
+
+    if (typeof segment === 'string') {
+      const id = this.focusKeys[segment];
+      const node = id !== undefined ? this.lrud.getNode(id) : undefined;
+      if (node && isInContainer(node)) return [node.id];
+    }
+
+    // The outermost lists get the first chance, so that a list is never skipped in favour of one of its items.
+    const resolverNodes = Object.keys(this.focusPathItemResolvers)
+      .map((id) => this.lrud.getNode(id))
+      .filter((node): node is Node => !!node && isInContainer(node))
+      .sort((a, b) => getNodeDepth(a) - getNodeDepth(b));
+
+    for (const node of resolverNodes) {
+      const nodeIds = this.focusPathItemResolvers[node.id](segment);
+      if (nodeIds) return nodeIds;
+    }
+
+    return undefined;
+  }
+
+  /** Resolves a focus key to the id of its node. Anything else is considered to be an id already. */
+  private getNodeId(focusKeyOrId: string): string {
+    const id = this.focusKeys[focusKeyOrId];
+    return id !== undefined ? id : focusKeyOrId;
+  }
+
   public getCurrentFocusNode = () => {
     return this.lrud.currentFocusNode;
   };
@@ -1,11 +1,70 @@
 import type { JSX } from 'preact';
 import type { ComponentChildren } from 'preact';
+import type { InputSource } from '../utils/remoteControl';
 
 /**
  * Direction for spatial navigation (from @bam.tech/lrud)
  */
 export type Direction = 'left' | 'right' | 'up' | 'down';
 
+/**
+ * Actions that a remote control can send to the spatial navigator
+ */
+export type RemoteControlAction =
+  | Direction
+  | 'enter'
+  | 'long_enter'
+  /** Enter has been pressed or released, sent around `enter` and `long_enter` by `createEnterPressHandler` */
+  | 'enter_down'
+  | 'enter_up'
+  | 'back'
+  | KeyAction;
+
+/**
+ * Actions that don't move the focus by themselves.
+ * They are delivered to the `onKeyAction` of the focused node, then of its parents, then of the root.
+ */
+export type KeyAction =
+  | PageKeyAction
+  | MediaKeyAction
+  | ColorKeyAction
+  | DigitKeyAction
+  | ChannelKeyAction;
+
+/**
+ * Moves by a whole page of the focused list, or to its first or last item
+ */
+export type PageKeyAction = 'page_up' | 'page_down' | 'home' | 'end';
+
+/**
+ * Playback keys of the remote control
+ */
+export type MediaKeyAction =
+  | 'play'
+  | 'pause'
+  | 'play_pause'
+  | 'stop'
+  | 'rewind'
+  | 'fast_forward'
+  | 'next'
+  | 'previous'
+  | 'record';
+
+/**
+ * Colored keys of the remote control
+ */
+export type ColorKeyAction = 'red' | 'green' | 'yellow' | 'blue';
+
+/**
+ * Number keys of the remote control
+ */
+export type DigitKeyAction = `digit_${0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9}`;
+
+/**
+ * Channel keys of the remote control
+ */
+export type ChannelKeyAction = 'channel_up' | 'channel_down';
+
 /**
  * Orientation for layouts
  */
@@ -16,6 +75,22 @@ export type Orientation = 'vertical' | 'horizontal';
  */
 export type NodeOrientation = Orientation;
 
+/**
+ * Which child gets the focus when the focus enters a node from outside
+ * - last-focused: the child that had the focus when the focus left the node
+ * - first: the first focusable child
+ * - default: the child picked by LRUD
+ */
+export type EnterTo = 'last-focused' | 'first' | 'default';
+
+/**
+ * Whether directional moves can leave a node once the focus is inside it
+ * - self-only: the focus can never leave the node with directional moves (focus trap)
+ * - self-first: children of the node are preferred, then the focus can leave
+ * - none: no restriction
+ */
+export type Restrict = 'self-only' | 'self-first' | 'none';
+
 /**
  * Ref methods for SpatialNavigationNode
  */
@@ -53,6 +128,14 @@ export interface SpatialNavigationRootProps {
   isActive?: boolean;
   /** Called when reaching a border of the navigator */
   onDirectionHandledWithoutMovement?: (direction: Direction) => void;
+  /** Called when the back key is pressed and no focused node handled it */
+  onBack?: () => void;
+  /** Called before every directional move. Return false to cancel it, or the focus key of another node to redirect it */
+  onBeforeMove?: (move: { direction: Direction; from: string; to: string | undefined }) => boolean | string | void;
+  /** Called with the media, color, digit, channel and page actions that no focused node handled */
+  onKeyAction?: (action: KeyAction) => void;
+  /** Where this root gets its actions from, instead of the one set with configureRemoteControl */
+  inputSource?: InputSource;
   /** Children elements */
   children: ComponentChildren;
 }
@@ -85,6 +168,26 @@ export interface SpatialNavigationNodeFocusableProps {
   indexRange?: { start: number; end: number };
   /** Additional offset for scroll */
   additionalOffset?: number;
+  /** Which child gets the focus when the focus enters this node from outside */
+  enterTo?: EnterTo;
+  /** Shorthand for enterTo="last-focused" */
+  rememberLastFocus?: boolean;
+  /** Whether directional moves can leave this node once the focus is inside */
+  restrict?: Restrict;
+  /** Whether moving past the last child goes back to the first one (and vice versa) */
+  isLooping?: boolean;
+  /** Callback when the back key is pressed while this node or one of its children is focused. Return true to stop propagation */
+  onBack?: () => boolean | void;
+  /** Called before a directional move while this node or one of its children is focused. Return false to cancel it, or the focus key of another node to redirect it */
+  onBeforeMove?: (move: { direction: Direction; from: string; to: string | undefined }) => boolean | string | void;
+  /** Called when the focus could not move any further in a direction matching the orientation of this node. Return true to stop propagation */
+  onEdgeReached?: (direction: Direction) => boolean | void;
+  /** Called with the media, color, digit, channel and page actions while this node or one of its children is focused. Return true to stop propagation */
+  onKeyAction?: (action: KeyAction) => boolean | void;
+  /** A readable name to focus the node with the navigator `focus` method */
+  focusKey?: string;
+  /** Keeps the node rendered but the navigation skips it */
+  isDisabled?: boolean;
 }
 
 /**
@@ -107,6 +210,24 @@ export interface SpatialNavigationNodeNonFocusableProps {
   indexRange?: { start: number; end: number };
   /** Additional offset for scroll */
   additionalOffset?: number;
+  /** Which child gets the focus when the focus enters this node from outside */
+  enterTo?: EnterTo;
+  /** Shorthand for enterTo="last-focused" */
+  rememberLastFocus?: boolean;
+  /** Whether directional moves can leave this node once the focus is inside */
+  restrict?: Restrict;
+  /** Whether moving past the last child goes back to the first one (and vice versa) */
+  isLooping?: boolean;
+  /** Callback when the back key is pressed while this node or one of its children is focused. Return true to stop propagation */
+  onBack?: () => boolean | void;
+  /** Called before a directional move while this node or one of its children is focused. Return false to cancel it, or the focus key of another node to redirect it */
+  onBeforeMove?: (move: { direction: Direction; from: string; to: string | undefined }) => boolean | string | void;
+  /** Called when the focus could not move any further in a direction matching the orientation of this node. Return true to stop propagation */
+  onEdgeReached?: (direction: Direction) => boolean | void;
+  /** Called with the media, color, digit, channel and page actions while this node or one of its children is focused. Return true to stop propagation */
+  onKeyAction?: (action: KeyAction) => boolean | void;
+  /** A readable name to focus the node with the navigator `focus` method */
+  focusKey?: string;
 }
 
 /**
@@ -124,6 +245,10 @@ export interface SpatialNavigationViewProps {
   direction: 'horizontal' | 'vertical';
   /** Whether child lists should behave like a grid */
   alignInGrid?: boolean;
+  /** Which child gets the focus when the focus enters this view from outside */
+  enterTo?: EnterTo;
+  /** Shorthand for enterTo="last-focused" */
+  rememberLastFocus?: boolean;
   /** Style for the view */
   style?: JSX.CSSProperties;
   /** Children elements */
@@ -142,6 +267,10 @@ export interface SpatialNavigationFocusableViewProps {
   onSelect?: () => void;
   /** Callback when node is selected with long press */
   onLongSelect?: () => void;
+  /** Callback when the back key is pressed while this node is focused. Return true to stop propagation */
+  onBack?: () => boolean | void;
+  /** Called before a directional move while this node is focused. Return false to cancel it, or the focus key of another node to redirect it */
+  onBeforeMove?: (move: { direction: Direction; from: string; to: string | undefined }) => boolean | string | void;
   /** Callback when node becomes active (child is focused) */
   onActive?: () => void;
   /** Callback when node becomes inactive */
@@ -154,6 +283,10 @@ export interface SpatialNavigationFocusableViewProps {
   indexRange?: { start: number; end: number };
   /** Additional offset for scroll */
   additionalOffset?: number;
+  /** Keeps the view rendered but the navigation skips it, sets aria-disabled */
+  isDisabled?: boolean;
+  /** A readable name to focus the view with the navigator `focus` method */
+  focusKey?: string;
   /** Style for the view */
   style?: JSX.CSSProperties;
   /** Props to pass to the inner div */
@@ -218,6 +351,7 @@ export interface FocusableConfig {
   onFocus?: (event?: FocusEvent) => void;
   onBlur?: (event?: FocusEvent) => void;
   onEnterPress?: () => void;
+  /** @deprecated Use `isDisabled` on SpatialNavigationNode or SpatialNavigationFocusableView */
   disabled?: boolean;
   autoFocus?: boolean;
   focusedClassName?: string;
@@ -276,6 +410,7 @@ export interface SectionConfig {
   defaultElement?: string;
   enterTo?: '' | 'last-focused' | 'default-element';
   restrict?: 'self-first' | 'self-only' | 'none';
+  /** @deprecated Use `isDisabled` on the focusable nodes of the section */
   disabled?: boolean;
 }
 
@@ -84,6 +84,28 @@ if (!Array.prototype.find) {
   };
 }
 
+// Polyfill for Array.findIndex (not available in Chrome 38)
+if (!Array.prototype.findIndex) {
+  Array.prototype.findIndex = function(predicate: any, _thisArg?: any) {
+    if (this == null) {
+      throw new TypeError('Array.prototype.findIndex called on null or undefined');
+    }
+    if (typeof predicate !== 'function') {
+      throw new TypeError('predicate must be a function');
+    }
+    const list = Object(this);
+    const length = parseInt(list.length) || 0;
+    const context = arguments[1];
+
+    for (let i = 0; i < length; i++) {
+      if (predicate.call(context, list[i], i, list)) {
+        return i;
+      }
+    }
+    return -1;
+  };
+}
+
 // Polyfill for Array.includes (not available in Chrome 38)
 if (!Array.prototype.includes) {
   Array.prototype.includes = function(searchElement: any, fromIndex?: number) {
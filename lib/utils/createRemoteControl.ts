@@ -0,0 +1,221 @@
+import type { RemoteControlAction } from '../types';
+
+/**
+ * How long Enter has to be held to emit `long_enter`, by default
+ */
+const DEFAULT_LONG_PRESS_DURATION_MS = 500;
+
+export interface LongPressOptions {
+  /** How long Enter has to be held to emit `long_enter` instead of `enter`, in ms. Defaults to 500ms. */
+  longPressDurationMs?: number;
+}
+
+export interface EnterPressHandler {
+  keyDown: () => void;
+  keyUp: () => void;
+  /** Forgets the current press, without emitting anything */
+  reset: () => void;
+}
+
+/**
+ * State machine turning the Enter keydown and keyup events into actions:
+ * `enter` on keyup after a short press, `long_enter` as soon as the key has been held long enough.
+ * Auto-repeat keydowns are ignored, so holding the key emits a single action.
+ * `enter_down` and `enter_up` are also sent when the key is pressed and released, to show a pressed state.
+ *
+ * Useful to build your own remote control subscriber.
+ */
+export const createEnterPressHandler = (
+  callback: (action: RemoteControlAction) => void,
+  { longPressDurationMs = DEFAULT_LONG_PRESS_DURATION_MS }: LongPressOptions = {},
+): EnterPressHandler => {
+  let isPressed = false;
+  let hasEmittedLongPress = false;
+  let longPressTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  const reset = () => {
+    if (longPressTimeoutId) clearTimeout(longPressTimeoutId);
+    longPressTimeoutId = null;
+    isPressed = false;
+    hasEmittedLongPress = false;
+  };
+
+  const keyDown = () => {
+    if (isPressed) return;
+
+    isPressed = true;
+    callback('enter_down');
+    longPressTimeoutId = setTimeout(() => {
+      longPressTimeoutId = null;
+      hasEmittedLongPress = true;
+      callback('long_enter');
+    }, longPressDurationMs);
+  };
+
+  const keyUp = () => {
+    if (!isPressed) return;
+
+    const isShortPress = !hasEmittedLongPress;
+    reset();
+    if (isShortPress) callback('enter');
+    callback('enter_up');
+  };
+
+  return { keyDown, keyUp, reset };
+};
+
+/**
+ * Which action each key sends. Keys not listed here are ignored.
+ */
+export interface KeyMap {
+  /** Matched against `event.key` */
+  keys?: { [key: string]: RemoteControlAction };
+  /** Matched against `event.keyCode`, when `event.key` isn't listed (older engines often report `Unidentified`) */
+  keyCodes?: { [keyCode: number]: RemoteControlAction };
+}
+
+export interface RemoteControlOptions extends LongPressOptions {
+  keyMap: KeyMap;
+  /** Where the key events are listened to. Defaults to `window`. */
+  target?: EventTarget;
+  /** Prevents the default behaviour of the mapped keys. Defaults to true. */
+  preventDefault?: boolean;
+  /**
+   * Actions sent on keyup instead of keydown, once per press. Defaults to `['enter']`.
+   * `enter` goes through `createEnterPressHandler`, so holding it sends `long_enter`.
+   */
+  keyupActions?: RemoteControlAction[];
+  /**
+   * Leaves the keys pressed in text fields (`input`, `textarea`, `select` and `contentEditable` elements) to them,
+   * so that digits, Backspace, Home or End still edit the text. Defaults to true.
+   */
+  ignoreEditableTargets?: boolean;
+}
+
+/**
+ * What the subscribers return, to be given back to their unsubscriber
+ */
+export interface KeyboardListeners {
+  handleKeyDown: (event: KeyboardEvent) => void;
+  handleKeyUp: (event: KeyboardEvent) => void;
+  enterPressHandler: EnterPressHandler;
+}
+
+/**
+ * Merges key maps, the last ones taking precedence. Handy to patch a preset.
+ *
+ * @example
+ * ```ts
+ * const keyMap = mergeKeyMaps(REMOTE_CONTROL_KEY_MAPS.tizen, { keyCodes: { 10182: 'back' } });
+ * ```
+ */
+export const mergeKeyMaps = (...keyMaps: KeyMap[]): KeyMap =>
+  keyMaps.reduce<KeyMap>(
+    (merged, keyMap) => ({
+      keys: { ...merged.keys, ...keyMap.keys },
+      keyCodes: { ...merged.keyCodes, ...keyMap.keyCodes },
+    }),
+    {},
+  );
+
+const isEditableTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  if (!element || !element.tagName) return false;
+  const tagName = element.tagName.toLowerCase();
+  return (
+    tagName === 'input' ||
+    tagName === 'textarea' ||
+    tagName === 'select' ||
+    element.isContentEditable === true
+  );
+};
+
+const getAction = (keyMap: KeyMap, event: KeyboardEvent): RemoteControlAction | undefined => {
+  const actionFromKey = keyMap.keys?.[event.key];
+  if (actionFromKey) return actionFromKey;
+  // keyCode is 0 when the engine doesn't know the key
+  return event.keyCode ? keyMap.keyCodes?.[event.keyCode] : undefined;
+};
+
+/**
+ * Creates a remote control subscriber from a key map.
+ * Presets for the common platforms are available in `REMOTE_CONTROL_KEY_MAPS`.
+ *
+ * @example
+ * ```ts
+ * import {
+ *   configureRemoteControl,
+ *   createRemoteControl,
+ *   REMOTE_CONTROL_KEY_MAPS,
+ * } from 'preact-spatial-navigation';
+ *
+ * const { subscriber, unsubscriber } = createRemoteControl({ keyMap: REMOTE_CONTROL_KEY_MAPS.tizen });
+ * configureRemoteControl({
+ *   remoteControlSubscriber: subscriber,
+ *   remoteControlUnsubscriber: unsubscriber,
+ * });
+ * ```
+ */
+export const createRemoteControl = ({
+  keyMap,
+  target,
+  preventDefault = true,
+  keyupActions = ['enter'],
+  ignoreEditableTargets = true,
+  longPressDurationMs,
+}: RemoteControlOptions) => {
+  const getTarget = () => target ?? (typeof window !== 'undefined' ? window : undefined);
+
+  const subscriber = (callback: (action: RemoteControlAction | null) => void): KeyboardListeners => {
+    const enterPressHandler = createEnterPressHandler(callback, { longPressDurationMs });
+    // Keyup actions only fire if their keydown was seen, so that the key used to launch the app is ignored
+    const pressedKeyupActions = new Set<RemoteControlAction>();
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (ignoreEditableTargets && isEditableTarget(event.target)) return;
+      const action = getAction(keyMap, event);
+      if (!action) return;
+      if (preventDefault) event.preventDefault();
+
+      if (!keyupActions.includes(action)) {
+        callback(action);
+      } else if (action === 'enter') {
+        enterPressHandler.keyDown();
+      } else {
+        pressedKeyupActions.add(action);
+      }
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (ignoreEditableTargets && isEditableTarget(event.target)) return;
+      const action = getAction(keyMap, event);
+      if (!action || !keyupActions.includes(action)) return;
+      if (preventDefault) event.preventDefault();
+
+      if (action === 'enter') {
+        enterPressHandler.keyUp();
+      } else if (pressedKeyupActions.delete(action)) {
+        callback(action);
+      }
+    };
+
+    const eventTarget = getTarget();
+    if (eventTarget) {
+      eventTarget.addEventListener('keydown', handleKeyDown as EventListener);
+      eventTarget.addEventListener('keyup', handleKeyUp as EventListener);
+    }
+
+    return { handleKeyDown, handleKeyUp, enterPressHandler };
+  };
+
+  const unsubscriber = (listeners: KeyboardListeners) => {
+    listeners.enterPressHandler.reset();
+    const eventTarget = getTarget();
+    if (eventTarget) {
+      eventTarget.removeEventListener('keydown', listeners.handleKeyDown as EventListener);
+      eventTarget.removeEventListener('keyup', listeners.handleKeyUp as EventListener);
+    }
+  };
+
+  return { subscriber, unsubscriber };
+};
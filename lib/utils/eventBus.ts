@@ -1,25 +1,44 @@
 import mitt from 'mitt';
 import type { Emitter } from 'mitt';
-import type { FocusDetail } from '../types';
+import type { Direction } from '../types';
+
+/**
+ * Payload of the events emitted by the spatial navigator
+ */
+export interface NavigationEventDetail {
+  /** Id of the node concerned by the event (the focused node for willmove, navigatefailed and enter events) */
+  nodeId: string;
+  /** Id of the parent of this node */
+  parentId?: string;
+  /** Direction of the movement, if the event was caused by a directional key */
+  direction?: Direction;
+  /** DOM element of the node, if it renders one */
+  element?: HTMLElement | null;
+  /** Id of the spatial navigator (one per SpatialNavigationRoot) that emitted the event */
+  navigatorId: string;
+}
 
 /**
  * Events emitted by the spatial navigation system
  */
 export type NavigationEvents = {
-  'focus': FocusDetail;
-  'blur': FocusDetail;
-  'willmove': { direction: string; sectionId?: string };
-  'navigatefailed': { direction: string };
-  'enterdown': void;
-  'enterup': void;
+  'focus': NavigationEventDetail;
+  'blur': NavigationEventDetail;
+  'willmove': NavigationEventDetail;
+  'navigatefailed': NavigationEventDetail;
+  'enterdown': NavigationEventDetail;
+  'enterup': NavigationEventDetail;
   [key: string]: any;
 }
 
 /**
  * Event bus for spatial navigation events
  * Uses mitt.js for lightweight event emission
+ *
+ * Each spatial navigator has its own bus (`spatialNavigator.events`).
+ * Events of every navigator are also forwarded to the global `navigationEventBus`.
  */
-class NavigationEventBus {
+export class NavigationEventBus {
   private emitter: Emitter<NavigationEvents>;
 
   constructor() {
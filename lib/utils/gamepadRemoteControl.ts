@@ -0,0 +1,198 @@
+import type { RemoteControlAction } from '../types';
+import { createEnterPressHandler, type EnterPressHandler, type LongPressOptions } from './createRemoteControl';
+import { isDirection, requestFrame } from './helpers';
+
+/**
+ * Buttons of the W3C standard gamepad layout (Xbox naming)
+ */
+const STANDARD_BUTTON_MAP: { [buttonIndex: number]: RemoteControlAction } = {
+  0: 'enter', // A
+  1: 'back', // B
+  4: 'page_up', // LB
+  5: 'page_down', // RB
+  12: 'up',
+  13: 'down',
+  14: 'left',
+  15: 'right',
+};
+
+export interface GamepadRemoteControlOptions extends LongPressOptions {
+  /** Which action each button sends. Defaults to the standard layout: D-pad, A, B and the shoulder buttons. */
+  buttonMap?: { [buttonIndex: number]: RemoteControlAction };
+  /** How far the left stick has to be pushed to send a direction, between 0 and 1. Defaults to 0.5. */
+  deadzone?: number;
+  /** How long a direction is held before it repeats, in ms. Defaults to 500ms. */
+  repeatDelayMs?: number;
+  /** Delay between two repeats of a held direction, in ms. Defaults to 100ms. */
+  repeatIntervalMs?: number;
+}
+
+type PressedAction = { pressedAt: number; lastEmittedAt: number };
+
+type GamepadState = {
+  pressedActions: Map<RemoteControlAction, PressedAction>;
+  enterPressHandler: EnterPressHandler;
+};
+
+/**
+ * What the gamepad subscriber returns, to be given back to its unsubscriber
+ */
+export interface GamepadListeners {
+  stop: () => void;
+}
+
+const getGamepads = (): (Gamepad | null)[] => {
+  if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') return [];
+  return Array.from(navigator.getGamepads());
+};
+
+const getStickDirection = (gamepad: Gamepad, deadzone: number): RemoteControlAction | null => {
+  const [x = 0, y = 0] = gamepad.axes;
+  if (Math.abs(x) < deadzone && Math.abs(y) < deadzone) return null;
+  if (Math.abs(x) >= Math.abs(y)) return x > 0 ? 'right' : 'left';
+  return y > 0 ? 'down' : 'up';
+};
+
+/**
+ * Creates a remote control subscriber polling the Gamepad API, for consoles and PC big-screen modes.
+ * The left stick and the D-pad send directions, which repeat while held.
+ * Holding A sends `long_enter` (see `createEnterPressHandler`).
+ * Gamepads can be plugged and unplugged at any time: polling only runs while one is connected.
+ *
+ * @example
+ * ```ts
+ * import { configureRemoteControl, createGamepadRemoteControl } from 'preact-spatial-navigation';
+ *
+ * const { subscriber, unsubscriber, deviceType } = createGamepadRemoteControl({ deadzone: 0.4 });
+ * configureRemoteControl({
+ *   remoteControlSubscriber: subscriber,
+ *   remoteControlUnsubscriber: unsubscriber,
+ *   deviceType,
+ * });
+ * ```
+ */
+export const createGamepadRemoteControl = ({
+  buttonMap = STANDARD_BUTTON_MAP,
+  deadzone = 0.5,
+  repeatDelayMs = 500,
+  repeatIntervalMs = 100,
+  longPressDurationMs,
+}: GamepadRemoteControlOptions = {}) => {
+  const subscriber = (callback: (action: RemoteControlAction | null) => void): GamepadListeners => {
+    const gamepadStates = new Map<number, GamepadState>();
+    let cancelFrame: (() => void) | null = null;
+
+    const getGamepadState = (index: number) => {
+      let state = gamepadStates.get(index);
+      if (!state) {
+        state = {
+          pressedActions: new Map(),
+          enterPressHandler: createEnterPressHandler(callback, { longPressDurationMs }),
+        };
+        gamepadStates.set(index, state);
+      }
+      return state;
+    };
+
+    const releaseAction = (state: GamepadState, action: RemoteControlAction) => {
+      state.pressedActions.delete(action);
+      if (action === 'enter') state.enterPressHandler.keyUp();
+    };
+
+    const forgetGamepad = (index: number) => {
+      const state = gamepadStates.get(index);
+      if (!state) return;
+      state.enterPressHandler.reset();
+      gamepadStates.delete(index);
+    };
+
+    const updateGamepad = (gamepad: Gamepad, now: number) => {
+      const state = getGamepadState(gamepad.index);
+
+      const activeActions = new Set<RemoteControlAction>();
+      gamepad.buttons.forEach((button, buttonIndex) => {
+        const action = buttonMap[buttonIndex];
+        if (action && button.pressed) activeActions.add(action);
+      });
+      const stickDirection = getStickDirection(gamepad, deadzone);
+      if (stickDirection) activeActions.add(stickDirection);
+
+      state.pressedActions.forEach((_, action) => {
+        if (!activeActions.has(action)) releaseAction(state, action);
+      });
+
+      activeActions.forEach((action) => {
+        const pressedAction = state.pressedActions.get(action);
+        if (!pressedAction) {
+          state.pressedActions.set(action, { pressedAt: now, lastEmittedAt: now });
+          if (action === 'enter') {
+            state.enterPressHandler.keyDown();
+          } else {
+            callback(action);
+          }
+          return;
+        }
+
+        // Only directions repeat, like the keys of a remote control
+        if (!isDirection(action)) return;
+        if (now - pressedAction.pressedAt < repeatDelayMs) return;
+        if (now - pressedAction.lastEmittedAt < repeatIntervalMs) return;
+        pressedAction.lastEmittedAt = now;
+        callback(action);
+      });
+    };
+
+    const poll = () => {
+      cancelFrame = null;
+      const now = Date.now();
+      const connectedIndexes = new Set<number>();
+
+      getGamepads().forEach((gamepad) => {
+        if (!gamepad || !gamepad.connected) return;
+        connectedIndexes.add(gamepad.index);
+        updateGamepad(gamepad, now);
+      });
+
+      gamepadStates.forEach((_, index) => {
+        if (!connectedIndexes.has(index)) forgetGamepad(index);
+      });
+
+      if (connectedIndexes.size > 0) cancelFrame = requestFrame(poll);
+    };
+
+    const startPolling = () => {
+      if (!cancelFrame) poll();
+    };
+
+    const handleGamepadConnected = () => startPolling();
+    const handleGamepadDisconnected = (event: Event) => {
+      forgetGamepad((event as GamepadEvent).gamepad.index);
+    };
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('gamepadconnected', handleGamepadConnected);
+      window.addEventListener('gamepaddisconnected', handleGamepadDisconnected);
+    }
+    // Gamepads connected before subscribing don't fire `gamepadconnected` again
+    startPolling();
+
+    const stop = () => {
+      if (cancelFrame) cancelFrame();
+      cancelFrame = null;
+      gamepadStates.forEach((_, index) => forgetGamepad(index));
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('gamepadconnected', handleGamepadConnected);
+        window.removeEventListener('gamepaddisconnected', handleGamepadDisconnected);
+      }
+    };
+
+    return { stop };
+  };
+
+  const unsubscriber = (listeners: GamepadListeners) => {
+    listeners.stop();
+  };
+
+  // The device type is left as it is
+  return { subscriber, unsubscriber, deviceType: null };
+};
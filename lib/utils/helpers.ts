@@ -1,3 +1,5 @@
+import type { Direction, RemoteControlAction } from '../types';
+
 /**
  * Generate a unique section ID
  */
@@ -5,6 +7,27 @@ export function generateSectionId(prefix: string = 'section'): string {
   return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Check if a remote control action is one of the four directions
+ */
+export function isDirection(action: RemoteControlAction): action is Direction {
+  return action === 'up' || action === 'down' || action === 'left' || action === 'right';
+}
+
+/**
+ * Run a callback on the next animation frame, or after 16ms on engines without requestAnimationFrame
+ *
+ * @returns a function cancelling the callback
+ */
+export function requestFrame(callback: () => void): () => void {
+  if (typeof requestAnimationFrame !== 'undefined') {
+    const frameId = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(frameId);
+  }
+  const timeoutId = setTimeout(callback, 16);
+  return () => clearTimeout(timeoutId);
+}
+
 /**
  * Check if an element is currently focused
  */
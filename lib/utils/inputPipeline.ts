@@ -0,0 +1,129 @@
+import type { Direction, RemoteControlAction } from '../types';
+import { isDirection, requestFrame } from './helpers';
+
+/**
+ * Two presses of the same direction closer than this belong to the same hold.
+ * It has to be longer than the delay before the first key repeat, which is around 500ms on most TVs.
+ */
+const HOLD_MAX_REPEAT_INTERVAL_MS = 600;
+
+export interface InputPipelineOptions {
+  /**
+   * Minimum delay between two directional moves, in ms.
+   * Moves pressed in the meantime are not queued: only the last one is applied once the delay is over.
+   */
+  minMoveIntervalMs?: number;
+  /** Applies at most one directional move per animation frame, the last one pressed. */
+  coalesceMovesPerFrame?: boolean;
+  /** Once a direction has been held long enough, each move skips several items of the focused list. */
+  acceleration?: {
+    /** How long the direction must be held before accelerating, in ms */
+    holdThresholdMs: number;
+    /** How many items each move goes through once accelerated */
+    steps: number;
+  };
+}
+
+export interface InputPipeline {
+  push: (action: RemoteControlAction | null) => void;
+  /** Drops the pending move and the scheduled timers */
+  dispose: () => void;
+}
+
+/**
+ * Sits between the remote control and the navigator, so that holding a key on a slow device
+ * doesn't queue more moves (and scroll animations) than the device can handle.
+ *
+ * Other actions than directions are never delayed nor dropped, but a pending move is applied before them
+ * to keep the order of the actions.
+ * Without options, every action is forwarded right away.
+ */
+export const createInputPipeline = (
+  onAction: (action: RemoteControlAction, steps: number) => void,
+  options: InputPipelineOptions = {},
+): InputPipeline => {
+  const { minMoveIntervalMs = 0, coalesceMovesPerFrame = false, acceleration } = options;
+
+  let pendingMove: Direction | null = null;
+  let cancelScheduledMove: (() => void) | null = null;
+  let lastMoveTime = -Infinity;
+  let hold: { direction: Direction; startTime: number; lastPressTime: number } | null = null;
+
+  const getSteps = (now: number) => {
+    if (!acceleration || !hold) return 1;
+    return now - hold.startTime >= acceleration.holdThresholdMs ? acceleration.steps : 1;
+  };
+
+  const applyPendingMove = () => {
+    if (cancelScheduledMove) {
+      cancelScheduledMove();
+      cancelScheduledMove = null;
+    }
+    if (!pendingMove) return;
+
+    const direction = pendingMove;
+    const now = Date.now();
+    pendingMove = null;
+    lastMoveTime = now;
+    onAction(direction, getSteps(now));
+  };
+
+  const scheduleMove = () => {
+    if (cancelScheduledMove) return;
+
+    const delay = Math.max(0, lastMoveTime + minMoveIntervalMs - Date.now());
+    if (delay === 0) {
+      if (coalesceMovesPerFrame) {
+        cancelScheduledMove = requestFrame(applyPendingMove);
+      } else {
+        applyPendingMove();
+      }
+      return;
+    }
+
+    let cancelFrame: (() => void) | null = null;
+    const timeoutId = setTimeout(() => {
+      if (coalesceMovesPerFrame) {
+        cancelFrame = requestFrame(applyPendingMove);
+      } else {
+        applyPendingMove();
+      }
+    }, delay);
+    cancelScheduledMove = () => {
+      clearTimeout(timeoutId);
+      if (cancelFrame) cancelFrame();
+    };
+  };
+
+  const push = (action: RemoteControlAction | null) => {
+    if (!action) return;
+
+    if (!isDirection(action)) {
+      applyPendingMove();
+      hold = null;
+      onAction(action, 1);
+      return;
+    }
+
+    const now = Date.now();
+    if (!hold || hold.direction !== action || now - hold.lastPressTime > HOLD_MAX_REPEAT_INTERVAL_MS) {
+      hold = { direction: action, startTime: now, lastPressTime: now };
+    } else {
+      hold.lastPressTime = now;
+    }
+
+    pendingMove = action;
+    scheduleMove();
+  };
+
+  const dispose = () => {
+    if (cancelScheduledMove) {
+      cancelScheduledMove();
+      cancelScheduledMove = null;
+    }
+    pendingMove = null;
+    hold = null;
+  };
+
+  return { push, dispose };
+};
@@ -0,0 +1,84 @@
+export interface PointerModeDetectorOptions {
+  /** How far the pointer has to move, in px, to switch to the pointer mode. Defaults to 20px. */
+  moveThresholdPx?: number;
+  /** Pointer moves right after a key press are ignored for this long, in ms. Defaults to 500ms. */
+  keyQuietPeriodMs?: number;
+}
+
+export interface PointerModeDetector {
+  /** Stops listening to the pointer and the keys */
+  dispose: () => void;
+}
+
+/**
+ * Tells when the user switches between the keys and the pointer of a remote control, such as the LG Magic Remote.
+ *
+ * On webOS, the `cursorStateChange` event says when the cursor shows up or hides.
+ * Elsewhere, moving the mouse switches to the pointer mode and pressing a key switches back.
+ * To avoid flickering between both modes, the pointer has to move for a while, and not right after a key press:
+ * some TVs fire `mousemove` events when the layout moves under a still cursor.
+ *
+ * Give `getIsPointerMode` when something else can change the mode too (such as the device type context),
+ * so that the detector starts from the actual mode rather than the last one it switched to.
+ */
+export const createPointerModeDetector = (
+  onModeChange: (mode: 'remoteKeys' | 'remotePointer') => void,
+  { moveThresholdPx = 20, keyQuietPeriodMs = 500 }: PointerModeDetectorOptions = {},
+  getIsPointerMode?: () => boolean,
+): PointerModeDetector => {
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    return { dispose: () => undefined };
+  }
+
+  let lastKeyPressTime = -Infinity;
+  let lastPointerPosition: { x: number; y: number } | null = null;
+  let pointerDistance = 0;
+  let lastMode: 'remoteKeys' | 'remotePointer' = 'remoteKeys';
+  const isPointerMode = () => (getIsPointerMode ? getIsPointerMode() : lastMode === 'remotePointer');
+
+  const setPointerMode = (pointerMode: boolean) => {
+    if (pointerMode === isPointerMode()) return;
+    lastMode = pointerMode ? 'remotePointer' : 'remoteKeys';
+    pointerDistance = 0;
+    onModeChange(lastMode);
+  };
+
+  const handleKeyDown = () => {
+    lastKeyPressTime = Date.now();
+    lastPointerPosition = null;
+    pointerDistance = 0;
+    setPointerMode(false);
+  };
+
+  const handleMouseMove = (event: MouseEvent) => {
+    if (isPointerMode()) return;
+    const position = { x: event.clientX, y: event.clientY };
+    const previousPosition = lastPointerPosition;
+    lastPointerPosition = position;
+    if (!previousPosition || Date.now() - lastKeyPressTime < keyQuietPeriodMs) return;
+
+    pointerDistance +=
+      Math.abs(position.x - previousPosition.x) + Math.abs(position.y - previousPosition.y);
+    if (pointerDistance >= moveThresholdPx) setPointerMode(true);
+  };
+
+  // webOS only
+  const handleCursorStateChange = (event: Event) => {
+    const detail = (event as CustomEvent<{ visibility: boolean }>).detail;
+    if (!detail) return;
+    pointerDistance = 0;
+    setPointerMode(detail.visibility);
+  };
+
+  window.addEventListener('keydown', handleKeyDown);
+  window.addEventListener('mousemove', handleMouseMove);
+  document.addEventListener('cursorStateChange', handleCursorStateChange);
+
+  return {
+    dispose: () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('cursorStateChange', handleCursorStateChange);
+    },
+  };
+};
@@ -1,11 +1,38 @@
-import type { Direction } from '@bam.tech/lrud';
+import type { RemoteControlAction } from '../types';
+import type { DeviceType } from '../context/DeviceTypeContext';
+import type { InputPipelineOptions } from './inputPipeline';
+import { createRemoteControl, type KeyboardListeners, type LongPressOptions } from './createRemoteControl';
+import { REMOTE_CONTROL_KEY_MAPS } from './remoteControlKeyMaps';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any -- can't know for sure what the subscriber will be...
 type SubscriberType = any;
 
 export interface RemoteControlConfiguration {
-  remoteControlSubscriber: (lrudCallback: (direction: Direction | null) => void) => SubscriberType;
+  remoteControlSubscriber: (lrudCallback: (action: RemoteControlAction | null) => void) => SubscriberType;
   remoteControlUnsubscriber: (subscriber: SubscriberType) => void;
+  /** Throttling, coalescing and acceleration of the directional moves, useful on slow devices */
+  inputPipeline?: InputPipelineOptions;
+  /**
+   * The device type the actions of the subscriber switch to. Defaults to `remoteKeys`.
+   * `null` leaves the device type as it is, as touch screens and gamepads do.
+   */
+  deviceType?: DeviceType | null;
+}
+
+/**
+ * Where a root gets its actions from, as returned by `createRemoteControl` and the other factories.
+ * Give it to a root with its `inputSource` prop or with `SpatialNavigationInputSourceProvider`.
+ */
+export interface InputSource {
+  subscriber: RemoteControlConfiguration['remoteControlSubscriber'];
+  unsubscriber: RemoteControlConfiguration['remoteControlUnsubscriber'];
+  /** Throttling, coalescing and acceleration of the directional moves, useful on slow devices */
+  inputPipeline?: InputPipelineOptions;
+  /**
+   * The device type its actions switch to. Defaults to `remoteKeys`.
+   * `null` leaves the device type as it is, as touch screens and gamepads do.
+   */
+  deviceType?: DeviceType | null;
 }
 
 export let remoteControlSubscriber:
@@ -15,14 +42,42 @@ export let remoteControlUnsubscriber:
   | RemoteControlConfiguration['remoteControlUnsubscriber']
   | undefined = undefined;
 
+export let remoteControlInputPipelineOptions: InputPipelineOptions | undefined = undefined;
+export let remoteControlDeviceType: DeviceType | null | undefined = undefined;
+
 export const configureRemoteControl = (options: RemoteControlConfiguration) => {
   remoteControlSubscriber = options.remoteControlSubscriber;
   remoteControlUnsubscriber = options.remoteControlUnsubscriber;
+  remoteControlInputPipelineOptions = options.inputPipeline;
+  remoteControlDeviceType = options.deviceType;
+};
+
+/**
+ * The input source set with `configureRemoteControl`, used by the roots that weren't given one
+ */
+export const getConfiguredInputSource = (): InputSource | undefined => {
+  if (!remoteControlSubscriber) return undefined;
+  const unsubscriber = remoteControlUnsubscriber;
+  return {
+    subscriber: remoteControlSubscriber,
+    unsubscriber: (listener) => {
+      if (!unsubscriber) {
+        console.warn(
+          '[Preact Spatial Navigation] You did not provide a remote control unsubscriber. Are you sure you called configuration correctly?',
+        );
+        return;
+      }
+      unsubscriber(listener);
+    },
+    inputPipeline: remoteControlInputPipelineOptions,
+    deviceType: remoteControlDeviceType,
+  };
 };
 
 /**
  * Common TV remote key codes
  * These can be used when implementing your own remote control subscriber
+ * See `REMOTE_CONTROL_KEY_MAPS` for complete key maps to give to `createRemoteControl`
  */
 export const TV_REMOTE_KEYS = {
   // Samsung Tizen
@@ -52,6 +107,8 @@ export const TV_REMOTE_KEYS = {
 /**
  * Helper function to create a basic keyboard-based remote control subscriber
  * This is a convenience function for web development and testing
+ * Holding Enter emits `long_enter` (see `createEnterPressHandler`)
+ * Built on `createRemoteControl` with the `keyboard` preset
  * 
  * @example
  * ```ts
@@ -64,54 +121,14 @@ export const TV_REMOTE_KEYS = {
  * });
  * ```
  */
-export const createKeyboardRemoteControl = () => {
-  const subscriber = (callback: (direction: Direction | null) => void) => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      switch (event.key) {
-        case 'ArrowUp':
-          event.preventDefault();
-          callback('up');
-          break;
-        case 'ArrowDown':
-          event.preventDefault();
-          callback('down');
-          break;
-        case 'ArrowLeft':
-          event.preventDefault();
-          callback('left');
-          break;
-        case 'ArrowRight':
-          event.preventDefault();
-          callback('right');
-          break;
-        case 'Enter':
-          event.preventDefault();
-          callback('enter');
-          break;
-        default:
-          break;
-      }
-    };
-
-    if (typeof window !== 'undefined') {
-      window.addEventListener('keydown', handleKeyDown);
-    }
-
-    return handleKeyDown;
-  };
-
-  const unsubscriber = (listener: (event: KeyboardEvent) => void) => {
-    if (typeof window !== 'undefined') {
-      window.removeEventListener('keydown', listener);
-    }
-  };
-
-  return { subscriber, unsubscriber };
-};
+export const createKeyboardRemoteControl = (options: LongPressOptions = {}) =>
+  createRemoteControl({ ...options, keyMap: REMOTE_CONTROL_KEY_MAPS.keyboard });
 
 /**
  * Helper function to create an LG webOS TV remote control subscriber
  * This handles LG-specific key codes and the webOS platform
+ * Holding OK emits `long_enter` (see `createEnterPressHandler`)
+ * Built on `createRemoteControl` with the `webOS` preset
  * 
  * @example
  * ```ts
@@ -124,68 +141,31 @@ export const createKeyboardRemoteControl = () => {
  * });
  * ```
  */
-export const createLGRemoteControl = () => {
-  const subscriber = (callback: (direction: Direction | null) => void) => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      event.preventDefault();
-      
-      const keyCode = event.keyCode;
-      
-      switch (keyCode) {
-        case TV_REMOTE_KEYS.LG_UP:
-        case 38: // Arrow Up
-          callback('up');
-          break;
-        case TV_REMOTE_KEYS.LG_DOWN:
-        case 40: // Arrow Down
-          callback('down');
-          break;
-        case TV_REMOTE_KEYS.LG_LEFT:
-        case 37: // Arrow Left
-          callback('left');
-          break;
-        case TV_REMOTE_KEYS.LG_RIGHT:
-        case 39: // Arrow Right
-          callback('right');
-          break;
-        case TV_REMOTE_KEYS.LG_ENTER:
-        case 13: // Enter
-          callback('enter');
-          break;
-        case TV_REMOTE_KEYS.LG_BACK:
-        case 461: // LG Back button
-          // You can emit a custom event or handle back navigation
-          if (typeof window !== 'undefined') {
-            // CustomEvent fallback for older browsers (e.g., Chrome 38)
-            let event: Event;
-            try {
-              event = new CustomEvent('lg-back-pressed');
-            } catch {
-              // Legacy constructor for older engines
-              event = document.createEvent('CustomEvent');
-              // initCustomEvent exists on legacy engines
-              (event as any).initCustomEvent('lg-back-pressed', false, false, undefined);
-            }
-            window.dispatchEvent(event);
-          }
-          break;
-        default:
-          break;
-      }
-    };
-
-    if (typeof window !== 'undefined') {
-      document.addEventListener('keydown', handleKeyDown);
-    }
-
-    return handleKeyDown;
-  };
+export const createLGRemoteControl = (options: LongPressOptions = {}) => {
+  const remoteControl = createRemoteControl({
+    ...options,
+    keyMap: REMOTE_CONTROL_KEY_MAPS.webOS,
+    target: typeof document !== 'undefined' ? document : undefined,
+  });
 
-  const unsubscriber = (listener: (event: KeyboardEvent) => void) => {
-    if (typeof window !== 'undefined') {
-      document.removeEventListener('keydown', listener);
-    }
-  };
+  const subscriber = (callback: (action: RemoteControlAction | null) => void): KeyboardListeners =>
+    remoteControl.subscriber((action) => {
+      callback(action);
+      // Kept for apps still listening to the window event, prefer the `onBack` props
+      if (action === 'back' && typeof window !== 'undefined') {
+        // CustomEvent fallback for older browsers (e.g., Chrome 38)
+        let event: Event;
+        try {
+          event = new CustomEvent('lg-back-pressed');
+        } catch {
+          // Legacy constructor for older engines
+          event = document.createEvent('CustomEvent');
+          // initCustomEvent exists on legacy engines
+          (event as any).initCustomEvent('lg-back-pressed', false, false, undefined);
+        }
+        window.dispatchEvent(event);
+      }
+    });
 
-  return { subscriber, unsubscriber };
+  return { subscriber, unsubscriber: remoteControl.unsubscriber };
 };
@@ -0,0 +1,145 @@
+import { mergeKeyMaps as merge, type KeyMap } from './createRemoteControl';
+
+const ARROWS_AND_ENTER: KeyMap = {
+  keys: {
+    ArrowUp: 'up',
+    ArrowDown: 'down',
+    ArrowLeft: 'left',
+    ArrowRight: 'right',
+    Enter: 'enter',
+  },
+  keyCodes: {
+    38: 'up',
+    40: 'down',
+    37: 'left',
+    39: 'right',
+    13: 'enter',
+  },
+};
+
+const DIGITS: KeyMap = {
+  keys: {
+    '0': 'digit_0',
+    '1': 'digit_1',
+    '2': 'digit_2',
+    '3': 'digit_3',
+    '4': 'digit_4',
+    '5': 'digit_5',
+    '6': 'digit_6',
+    '7': 'digit_7',
+    '8': 'digit_8',
+    '9': 'digit_9',
+  },
+  keyCodes: {
+    48: 'digit_0',
+    49: 'digit_1',
+    50: 'digit_2',
+    51: 'digit_3',
+    52: 'digit_4',
+    53: 'digit_5',
+    54: 'digit_6',
+    55: 'digit_7',
+    56: 'digit_8',
+    57: 'digit_9',
+  },
+};
+
+/** Standard `key` values of the media, color and channel keys, reported by the recent engines */
+const MEDIA_AND_COLOR_KEYS: KeyMap = {
+  keys: {
+    MediaPlay: 'play',
+    MediaPause: 'pause',
+    MediaPlayPause: 'play_pause',
+    MediaStop: 'stop',
+    MediaRewind: 'rewind',
+    MediaFastForward: 'fast_forward',
+    MediaTrackNext: 'next',
+    MediaTrackPrevious: 'previous',
+    MediaRecord: 'record',
+    ColorF0Red: 'red',
+    ColorF1Green: 'green',
+    ColorF2Yellow: 'yellow',
+    ColorF3Blue: 'blue',
+    ChannelUp: 'channel_up',
+    ChannelDown: 'channel_down',
+  },
+};
+
+/** Key codes shared by most TV platforms (HbbTV heritage) */
+const TV_MEDIA_AND_COLOR_KEY_CODES: KeyMap = {
+  keyCodes: {
+    415: 'play',
+    19: 'pause',
+    413: 'stop',
+    412: 'rewind',
+    417: 'fast_forward',
+    416: 'record',
+    403: 'red',
+    404: 'green',
+    405: 'yellow',
+    406: 'blue',
+  },
+};
+
+/**
+ * Key maps of the common platforms, to give to `createRemoteControl`.
+ * Patch them with `mergeKeyMaps` if your devices send other keys.
+ */
+export const REMOTE_CONTROL_KEY_MAPS = {
+  /** Desktop keyboards, for web development and testing */
+  keyboard: merge(ARROWS_AND_ENTER, DIGITS, MEDIA_AND_COLOR_KEYS, {
+    keys: {
+      Escape: 'back',
+      BrowserBack: 'back',
+      GoBack: 'back',
+      XF86Back: 'back',
+      // Text fields keep these keys to move the caret (see `ignoreEditableTargets`)
+      PageUp: 'page_up',
+      PageDown: 'page_down',
+      Home: 'home',
+      End: 'end',
+    },
+  }),
+  /**
+   * Samsung Tizen.
+   * Tizen only sends the media, color and digit keys once registered with `tizen.tvinputdevice.registerKey`.
+   */
+  tizen: merge(ARROWS_AND_ENTER, DIGITS, MEDIA_AND_COLOR_KEYS, TV_MEDIA_AND_COLOR_KEY_CODES, {
+    keys: { XF86Back: 'back' },
+    keyCodes: {
+      10009: 'back',
+      10252: 'play_pause',
+      10233: 'next',
+      10232: 'previous',
+      427: 'channel_up',
+      428: 'channel_down',
+    },
+  }),
+  /** LG webOS */
+  webOS: merge(ARROWS_AND_ENTER, DIGITS, MEDIA_AND_COLOR_KEYS, TV_MEDIA_AND_COLOR_KEY_CODES, {
+    keys: { GoBack: 'back' },
+    keyCodes: { 461: 'back', 33: 'channel_up', 34: 'channel_down' },
+  }),
+  /** Vizio SmartCast */
+  vizio: merge(ARROWS_AND_ENTER, DIGITS, MEDIA_AND_COLOR_KEYS, TV_MEDIA_AND_COLOR_KEY_CODES, {
+    keys: { Backspace: 'back' },
+    keyCodes: { 8: 'back' },
+  }),
+  /** Hisense VIDAA */
+  vidaa: merge(ARROWS_AND_ENTER, DIGITS, MEDIA_AND_COLOR_KEYS, TV_MEDIA_AND_COLOR_KEY_CODES, {
+    keys: { Backspace: 'back' },
+    keyCodes: { 8: 'back' },
+  }),
+  /** Fire TV and Android TV WebViews */
+  androidTV: merge(ARROWS_AND_ENTER, DIGITS, MEDIA_AND_COLOR_KEYS, {
+    keys: { Escape: 'back', GoBack: 'back', BrowserBack: 'back' },
+    keyCodes: {
+      27: 'back',
+      179: 'play_pause',
+      227: 'rewind',
+      228: 'fast_forward',
+      166: 'channel_up',
+      167: 'channel_down',
+    },
+  }),
+};
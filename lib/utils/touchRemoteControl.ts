@@ -0,0 +1,99 @@
+import type { Direction, RemoteControlAction } from '../types';
+
+export interface TouchRemoteControlOptions {
+  /** Where the touch events are listened to. Defaults to `window`. */
+  target?: EventTarget;
+  /** How far the finger has to move to make a swipe, in px. Defaults to 50px. */
+  swipeThresholdPx?: number;
+  /** Slower gestures are not swipes, in ms. Defaults to 800ms. */
+  maxSwipeDurationMs?: number;
+}
+
+/**
+ * What the touch subscriber returns, to be given back to its unsubscriber
+ */
+export interface TouchListeners {
+  handleTouchStart: (event: TouchEvent) => void;
+  handleTouchEnd: (event: TouchEvent) => void;
+}
+
+/**
+ * The content follows the finger: swiping to the left brings the next item, on the right.
+ */
+const getSwipeDirection = (deltaX: number, deltaY: number): Direction => {
+  if (Math.abs(deltaX) >= Math.abs(deltaY)) return deltaX < 0 ? 'right' : 'left';
+  return deltaY < 0 ? 'down' : 'up';
+};
+
+/**
+ * Creates a remote control subscriber for touch screens (`mobile` and `tablet` device types).
+ * Swipes move the focus like the arrows of a remote control would.
+ *
+ * Taps are left to the browser: tapping a `SpatialNavigationFocusableView` focuses and selects it.
+ * Swipes along a `SpatialNavigationVirtualizedList` drag the list instead of moving the focus.
+ *
+ * @example
+ * ```ts
+ * import { configureRemoteControl, createTouchRemoteControl } from 'preact-spatial-navigation';
+ *
+ * const { subscriber, unsubscriber, deviceType } = createTouchRemoteControl({ swipeThresholdPx: 40 });
+ * configureRemoteControl({
+ *   remoteControlSubscriber: subscriber,
+ *   remoteControlUnsubscriber: unsubscriber,
+ *   deviceType,
+ * });
+ * ```
+ */
+export const createTouchRemoteControl = ({
+  target,
+  swipeThresholdPx = 50,
+  maxSwipeDurationMs = 800,
+}: TouchRemoteControlOptions = {}) => {
+  const getTarget = () => target ?? (typeof window !== 'undefined' ? window : undefined);
+
+  const subscriber = (callback: (action: RemoteControlAction | null) => void): TouchListeners => {
+    let touchStart: { x: number; y: number; time: number } | null = null;
+
+    const handleTouchStart = (event: TouchEvent) => {
+      // Pinches and other multi-touch gestures are not swipes
+      if (event.touches.length !== 1) {
+        touchStart = null;
+        return;
+      }
+      const touch = event.touches[0];
+      touchStart = { x: touch.clientX, y: touch.clientY, time: Date.now() };
+    };
+
+    const handleTouchEnd = (event: TouchEvent) => {
+      if (!touchStart) return;
+      const touch = event.changedTouches[0];
+      const deltaX = touch.clientX - touchStart.x;
+      const deltaY = touch.clientY - touchStart.y;
+      const duration = Date.now() - touchStart.time;
+      touchStart = null;
+
+      if (Math.max(Math.abs(deltaX), Math.abs(deltaY)) < swipeThresholdPx) return;
+      if (duration > maxSwipeDurationMs) return;
+      callback(getSwipeDirection(deltaX, deltaY));
+    };
+
+    const eventTarget = getTarget();
+    if (eventTarget) {
+      eventTarget.addEventListener('touchstart', handleTouchStart as EventListener);
+      eventTarget.addEventListener('touchend', handleTouchEnd as EventListener);
+    }
+
+    return { handleTouchStart, handleTouchEnd };
+  };
+
+  const unsubscriber = (listeners: TouchListeners) => {
+    const eventTarget = getTarget();
+    if (eventTarget) {
+      eventTarget.removeEventListener('touchstart', listeners.handleTouchStart as EventListener);
+      eventTarget.removeEventListener('touchend', listeners.handleTouchEnd as EventListener);
+    }
+  };
+
+  // The device type is left as it is
+  return { subscriber, unsubscriber, deviceType: null };
+};